@@ -0,0 +1,25 @@
+import { jest } from '@jest/globals'
+import type { LinearClient } from '../src/linear_client.js'
+
+/**
+ * Answers a Linear GraphQL request in place of the API.
+ */
+export type LinearRequestHandler = (
+  query: string,
+  variables: Record<string, unknown>
+) => unknown
+
+/**
+ * Creates a Linear client whose requests are answered by the given handler.
+ *
+ * @param handler - Answers each request, usually by looking at its operation name.
+ * @returns The client and the mock of its `request` method, to inspect the calls.
+ */
+export function createLinearClient(handler: LinearRequestHandler) {
+  const request = jest.fn(
+    async (query: string, variables: Record<string, unknown> = {}) =>
+      handler(query, variables)
+  )
+
+  return { linearClient: { request } as unknown as LinearClient, request }
+}
@@ -1,3 +0,0 @@
-import { jest } from '@jest/globals'
-
-export const wait = jest.fn<typeof import('../src/wait.js').wait>()
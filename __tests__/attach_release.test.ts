@@ -0,0 +1,597 @@
+/**
+ * Unit tests for linking a release to its Linear issues, src/attach_release.ts
+ */
+import * as fs from 'node:fs'
+import * as os from 'node:os'
+import * as path from 'node:path'
+import { jest } from '@jest/globals'
+import * as core from '../__fixtures__/core.js'
+import {
+  createLinearClient,
+  LinearRequestHandler
+} from '../__fixtures__/linear_client.js'
+import type { PullRequestDetails, ReleasePullRequests } from '../src/github.js'
+
+const getPullRequestUrlsForRelease =
+  jest.fn<(versionName: string) => Promise<ReleasePullRequests>>()
+const listReleasesForBackfill = jest.fn<() => Promise<string[]>>()
+const updateReleaseNotes =
+  jest.fn<(versionName: string, section: string) => Promise<void>>()
+const getPullRequestDetails =
+  jest.fn<(prUrl: string) => Promise<PullRequestDetails | null>>()
+const writeReleaseSummary = jest.fn<() => Promise<void>>()
+const writeBackfillSummary = jest.fn<(reports: unknown[]) => Promise<void>>()
+
+let handleLinearRequest: LinearRequestHandler = () => {
+  throw new Error('Unexpected request')
+}
+const { linearClient } = createLinearClient((query, variables) =>
+  handleLinearRequest(query, variables)
+)
+
+jest.unstable_mockModule('@actions/core', () => core)
+jest.unstable_mockModule('../src/github.js', () => ({
+  getPullRequestUrlsForRelease,
+  listReleasesForBackfill,
+  updateReleaseNotes,
+  getPullRequestDetails,
+  upsertPullRequestComment: jest.fn(),
+  addLabelToPullRequest: jest.fn()
+}))
+jest.unstable_mockModule('../src/summary.js', () => ({
+  writeReleaseSummary,
+  writeBackfillSummary,
+  writeUnlinkSummary: jest.fn()
+}))
+jest.unstable_mockModule('../src/linear_client.js', () => ({
+  defaultLinearApiUrl: 'https://api.linear.app/graphql',
+  LinearClient: jest.fn(() => linearClient),
+  LinearGraphQLError: class extends Error {}
+}))
+
+const { processRelease } = await import('../src/attach_release.js')
+const { loadConfig } = await import('../src/config.js')
+
+/**
+ * Returns the settings of a run with the required inputs and the given ones.
+ */
+function createConfig(inputs: Record<string, string>) {
+  return loadConfig({
+    getInput: (name) =>
+      ({
+        'linear-api-key': 'lin_api_key',
+        'github-token': 'ghp_token',
+        'release-mode': 'link',
+        'config-file': '',
+        ...inputs
+      })[name] || '',
+    repo: { owner: 'octo-org', repo: 'octo-repo' },
+    serverUrl: 'https://github.com'
+  })
+}
+
+/**
+ * Returns the pull requests of a release.
+ */
+function createRelease(prUrls: string[]): ReleasePullRequests {
+  return {
+    prUrls,
+    prerelease: false,
+    releaseDate: '2026-10-01T12:00:00Z',
+    previousTagStrategy: 'none'
+  }
+}
+
+describe('attach_release.ts', () => {
+  let workspace: string
+  const originalWorkspace = process.env.GITHUB_WORKSPACE
+
+  beforeEach(() => {
+    workspace = fs.mkdtempSync(path.join(os.tmpdir(), 'release-linker-'))
+    process.env.GITHUB_WORKSPACE = workspace
+    handleLinearRequest = () => {
+      throw new Error('Unexpected request')
+    }
+  })
+
+  afterEach(() => {
+    fs.rmSync(workspace, { recursive: true, force: true })
+    if (originalWorkspace === undefined) {
+      delete process.env.GITHUB_WORKSPACE
+    } else {
+      process.env.GITHUB_WORKSPACE = originalWorkspace
+    }
+  })
+
+  describe('outputs', () => {
+    it('Counts an issue as updated only when it was linked or labeled', async () => {
+      const prUrls = [1, 2].map(
+        (number) => `https://github.com/octo-org/octo-repo/pull/${number}`
+      )
+      getPullRequestUrlsForRelease.mockResolvedValue(createRelease(prUrls))
+      handleLinearRequest = (query, variables) => {
+        if (query.includes('query GetIssuesByPullRequestUrls')) {
+          return {
+            attachments: {
+              nodes: prUrls.map((url, index) => ({
+                id: `attachment-${index + 1}`,
+                url,
+                issue: {
+                  id: `issue-${index + 1}`,
+                  identifier: `ENG-${index + 1}`,
+                  title: `Issue ${index + 1}`
+                }
+              }))
+            }
+          }
+        }
+        if (query.includes('mutation AttachmentCreate')) {
+          return {
+            attachmentCreate: { success: variables.issueId === 'issue-1' }
+          }
+        }
+        if (query.includes('query IssueComments')) {
+          return { issue: { comments: { pageInfo: {}, nodes: [] } } }
+        }
+        if (query.includes('mutation CommentCreate')) {
+          return { commentCreate: { success: true } }
+        }
+        throw new Error('Unexpected request')
+      }
+
+      await processRelease(
+        createConfig({ 'version-name': '1.2.0', 'issue-comment': 'true' })
+      )
+
+      expect(core.setOutput).toHaveBeenCalledWith(
+        'updated-issues',
+        JSON.stringify(['ENG-1'])
+      )
+      expect(core.setOutput).toHaveBeenCalledWith(
+        'commented-issues',
+        JSON.stringify(['ENG-1', 'ENG-2'])
+      )
+      expect(core.setOutput).toHaveBeenCalledWith(
+        'failed-issues',
+        JSON.stringify(['ENG-2'])
+      )
+    })
+  })
+
+  describe('identifier fallback', () => {
+    it('Only accepts the team keys of the workspace by default', async () => {
+      const prUrl = 'https://github.com/octo-org/octo-repo/pull/1'
+      getPullRequestUrlsForRelease.mockResolvedValue(createRelease([prUrl]))
+      getPullRequestDetails.mockResolvedValue({
+        title: 'Encode as UTF-8 (ENG-1)',
+        headRefName: 'jane/utf-8',
+        body: '',
+        mergeCommitMessage: ''
+      })
+      const lookedUp: unknown[] = []
+      handleLinearRequest = (query, variables) => {
+        if (query.includes('query GetIssuesByPullRequestUrls')) {
+          return { attachments: { nodes: [] } }
+        }
+        if (query.includes('query TeamKeys')) {
+          return { teams: { nodes: [{ key: 'ENG' }] } }
+        }
+        if (query.includes('query GetIssueByIdentifier')) {
+          lookedUp.push(variables.id)
+          return {
+            issue: { id: 'issue-1', identifier: 'ENG-1', title: 'Encoding' }
+          }
+        }
+        if (query.includes('mutation AttachmentCreate')) {
+          return { attachmentCreate: { success: true } }
+        }
+        throw new Error('Unexpected request')
+      }
+
+      await processRelease(
+        createConfig({ 'version-name': '1.2.0', 'identifier-fallback': 'true' })
+      )
+
+      expect(lookedUp).toEqual(['ENG-1'])
+      expect(core.setOutput).toHaveBeenCalledWith(
+        'updated-issues',
+        JSON.stringify(['ENG-1'])
+      )
+    })
+  })
+
+  describe('parent propagation', () => {
+    const prUrl = (number: number) =>
+      `https://github.com/octo-org/octo-repo/pull/${number}`
+
+    /**
+     * Answers the requests of a release of ENG-1 and ENG-2, the sub-issues of ENG-10
+     * and ENG-20, where ENG-20 has another sub-issue ENG-3 that has not shipped.
+     * ENG-10 is itself a sub-issue of ENG-100.
+     */
+    function handleParentRequests(
+      parentLookups: unknown[]
+    ): LinearRequestHandler {
+      return (query, variables) => {
+        if (query.includes('query GetIssuesByPullRequestUrls')) {
+          return {
+            attachments: {
+              nodes: [
+                {
+                  id: 'attachment-1',
+                  url: prUrl(1),
+                  issue: {
+                    id: 'issue-1',
+                    identifier: 'ENG-1',
+                    title: 'Fix checkout',
+                    parent: { id: 'parent-10' }
+                  }
+                },
+                {
+                  id: 'attachment-2',
+                  url: prUrl(2),
+                  issue: {
+                    id: 'issue-2',
+                    identifier: 'ENG-2',
+                    title: 'Rotate keys',
+                    parent: { id: 'parent-20' }
+                  }
+                }
+              ]
+            }
+          }
+        }
+        if (query.includes('query GetParentIssue')) {
+          parentLookups.push(variables.id)
+          if (variables.id === 'parent-10') {
+            return {
+              issue: {
+                id: 'parent-10',
+                identifier: 'ENG-10',
+                title: 'Checkout revamp',
+                parent: { id: 'parent-100' },
+                children: {
+                  nodes: [
+                    { id: 'issue-1', identifier: 'ENG-1' },
+                    {
+                      id: 'issue-4',
+                      identifier: 'ENG-4',
+                      state: { type: 'canceled' }
+                    }
+                  ]
+                }
+              }
+            }
+          }
+          return {
+            issue: {
+              id: 'parent-20',
+              identifier: 'ENG-20',
+              title: 'Key management',
+              children: {
+                nodes: [
+                  { id: 'issue-2', identifier: 'ENG-2' },
+                  { id: 'issue-3', identifier: 'ENG-3' }
+                ]
+              }
+            }
+          }
+        }
+        if (query.includes('mutation AttachmentCreate')) {
+          return { attachmentCreate: { success: true } }
+        }
+        throw new Error('Unexpected request')
+      }
+    }
+
+    it('Releases a parent only once all of its sub-issues have shipped', async () => {
+      getPullRequestUrlsForRelease.mockResolvedValue(
+        createRelease([prUrl(1), prUrl(2)])
+      )
+      const parentLookups: unknown[] = []
+      handleLinearRequest = handleParentRequests(parentLookups)
+
+      await processRelease(
+        createConfig({
+          'version-name': '1.2.0',
+          'propagate-to-parents': 'true'
+        })
+      )
+
+      expect(core.setOutput).toHaveBeenCalledWith(
+        'released-parents',
+        JSON.stringify(['ENG-10'])
+      )
+      expect(core.info).toHaveBeenCalledWith(
+        'Not releasing parent issue ENG-20: sub-issue(s) ENG-3 have not shipped yet.'
+      )
+    })
+
+    it('Stops at the direct parents of the released issues', async () => {
+      getPullRequestUrlsForRelease.mockResolvedValue(
+        createRelease([prUrl(1), prUrl(2)])
+      )
+      const parentLookups: unknown[] = []
+      handleLinearRequest = handleParentRequests(parentLookups)
+
+      await processRelease(
+        createConfig({
+          'version-name': '1.2.0',
+          'propagate-to-parents': 'true'
+        })
+      )
+
+      // ENG-10 was released, but its own parent ENG-100 is not looked at
+      expect(parentLookups).toEqual(['parent-10', 'parent-20'])
+    })
+  })
+
+  describe('release notes', () => {
+    const prUrl = (number: number) =>
+      `https://github.com/octo-org/octo-repo/pull/${number}`
+
+    beforeEach(() => {
+      getPullRequestUrlsForRelease.mockResolvedValue(
+        createRelease([prUrl(1), prUrl(2), prUrl(3)])
+      )
+      handleLinearRequest = (query) => {
+        if (query.includes('query GetIssuesByPullRequestUrls')) {
+          return {
+            attachments: {
+              nodes: [
+                {
+                  id: 'attachment-1',
+                  url: prUrl(1),
+                  issue: {
+                    id: 'issue-1',
+                    identifier: 'ENG-1',
+                    title: 'Fix checkout',
+                    labels: {
+                      nodes: [
+                        { id: 'label-1', name: 'Bug' },
+                        {
+                          id: 'label-2',
+                          name: '1.1.0 (octo-repo)',
+                          parent: { id: 'group-1', name: 'octo-repo releases' }
+                        }
+                      ]
+                    }
+                  }
+                },
+                {
+                  id: 'attachment-2',
+                  url: prUrl(2),
+                  issue: {
+                    id: 'issue-2',
+                    identifier: 'ENG-2',
+                    title: 'Rotate keys',
+                    labels: { nodes: [{ id: 'label-3', name: 'Internal' }] }
+                  }
+                }
+              ]
+            }
+          }
+        }
+        throw new Error('Unexpected request')
+      }
+    })
+
+    it('Ignores the release labels and lists the PRs of filtered issues', async () => {
+      await processRelease(
+        createConfig({
+          'version-name': '1.2.0',
+          'release-notes': 'true',
+          'release-notes-group-by': 'label',
+          'exclude-labels': 'Internal',
+          'dry-run': 'true'
+        })
+      )
+
+      const section = updateReleaseNotes.mock.calls[0][1]
+      expect(section).toContain('### Bug\n\n- ENG-1 Fix checkout\n')
+      expect(section).not.toContain('1.1.0 (octo-repo)')
+      expect(section).toContain(
+        `### Pull requests without a Linear issue\n\n- ${prUrl(3)}\n`
+      )
+      expect(section).toContain(
+        `### Pull requests of filtered issues\n\n- ${prUrl(2)}\n`
+      )
+    })
+  })
+
+  describe('unlink', () => {
+    const group = { id: 'group-1', name: 'octo-repo releases' }
+    const issue = (id: number) => ({
+      id: `issue-${id}`,
+      identifier: `ENG-${id}`,
+      title: `Issue ${id}`,
+      labels: {
+        nodes: [{ id: 'label-1.2.0', name: '1.2.0 (octo-repo)', parent: group }]
+      }
+    })
+
+    it('Restores the previous label of a release that was only labeled', async () => {
+      const labelUpdates: Record<string, unknown>[] = []
+      handleLinearRequest = (query, variables) => {
+        if (query.includes('query FindReleaseAttachments')) {
+          return { attachments: { nodes: [] } }
+        }
+        if (query.includes('query FindParent')) {
+          const { name } = variables.filter as { name: { eq: string } }
+          return {
+            issueLabels: { nodes: name.eq === group.name ? [group] : [] }
+          }
+        }
+        if (query.includes('query FindChild')) {
+          return {
+            issueLabels: {
+              nodes: [
+                { id: 'label-1.2.0', name: variables.name, parent: group }
+              ]
+            }
+          }
+        }
+        if (query.includes('query GetLabelGroupChildren')) {
+          return {
+            issueLabel: {
+              children: {
+                nodes: ['1.1.0', '1.2.0'].map((version) => ({
+                  id: `label-${version}`,
+                  name: `${version} (octo-repo)`,
+                  createdAt: '2026-10-01T12:00:00Z'
+                }))
+              }
+            }
+          }
+        }
+        if (query.includes('query GetIssuesByPullRequestUrls')) {
+          return {
+            attachments: {
+              nodes: [
+                {
+                  id: 'attachment-1',
+                  url: (variables.urls as string[])[0],
+                  issue: issue(1)
+                }
+              ]
+            }
+          }
+        }
+        if (query.includes('query GetIssuesByLabel')) {
+          return { issues: { nodes: [issue(1), issue(2)] } }
+        }
+        if (query.includes('mutation RemoveIssueLabel')) {
+          labelUpdates.push(variables)
+          return { issueUpdate: { success: true } }
+        }
+        throw new Error('Unexpected request')
+      }
+      getPullRequestUrlsForRelease.mockResolvedValue(
+        createRelease(['https://github.com/octo-org/octo-repo/pull/1'])
+      )
+
+      await processRelease(
+        createConfig({
+          'version-name': '1.2.0',
+          'release-mode': 'unlink',
+          'restore-previous-label': 'true'
+        })
+      )
+
+      expect(getPullRequestUrlsForRelease).toHaveBeenCalledWith(
+        '1.1.0',
+        'ghp_token',
+        'octo-org',
+        'octo-repo',
+        expect.anything()
+      )
+      expect(labelUpdates).toEqual([
+        {
+          issueId: 'issue-1',
+          removedLabelIds: ['label-1.2.0'],
+          addedLabelIds: ['label-1.1.0']
+        },
+        {
+          issueId: 'issue-2',
+          removedLabelIds: ['label-1.2.0'],
+          addedLabelIds: []
+        }
+      ])
+    })
+  })
+
+  describe('backfill', () => {
+    const stateFile = '.release-linker-backfill.json'
+
+    function readState() {
+      return JSON.parse(
+        fs.readFileSync(path.join(workspace, stateFile), 'utf8')
+      )
+    }
+
+    beforeEach(() => {
+      listReleasesForBackfill.mockResolvedValue(['1.0.0', '1.1.0', '1.2.0'])
+      getPullRequestUrlsForRelease.mockResolvedValue(createRelease([]))
+    })
+
+    it('Links every release in order and records each one', async () => {
+      await processRelease(createConfig({ 'backfill-from-tag': '1.0.0' }))
+
+      expect(
+        getPullRequestUrlsForRelease.mock.calls.map(
+          ([versionName]) => versionName
+        )
+      ).toEqual(['1.0.0', '1.1.0', '1.2.0'])
+      expect(readState()).toEqual({ completed: ['1.0.0', '1.1.0', '1.2.0'] })
+      expect(core.setOutput).toHaveBeenCalledWith(
+        'backfilled-releases',
+        JSON.stringify(['1.0.0', '1.1.0', '1.2.0'])
+      )
+    })
+
+    it('Resumes after the releases recorded in the state file', async () => {
+      fs.writeFileSync(
+        path.join(workspace, stateFile),
+        JSON.stringify({ completed: ['1.0.0'] })
+      )
+
+      await processRelease(createConfig({ 'backfill-from-tag': '1.0.0' }))
+
+      expect(
+        getPullRequestUrlsForRelease.mock.calls.map(
+          ([versionName]) => versionName
+        )
+      ).toEqual(['1.1.0', '1.2.0'])
+      expect(readState()).toEqual({ completed: ['1.0.0', '1.1.0', '1.2.0'] })
+      expect(writeBackfillSummary).toHaveBeenCalledWith([
+        { versionName: '1.0.0', status: 'skipped' },
+        expect.objectContaining({ versionName: '1.1.0', status: 'success' }),
+        expect.objectContaining({ versionName: '1.2.0', status: 'success' })
+      ])
+    })
+
+    it('Stops at the first release that fails', async () => {
+      getPullRequestUrlsForRelease.mockImplementation(async (versionName) => {
+        if (versionName === '1.1.0') {
+          throw new Error('GitHub is down.')
+        }
+        return createRelease([])
+      })
+
+      await expect(
+        processRelease(createConfig({ 'backfill-since': '2026-01-01' }))
+      ).rejects.toThrow(
+        'Backfill stopped at release 1.1.0: Error: GitHub is down. Re-run to resume from this release.'
+      )
+      expect(getPullRequestUrlsForRelease).toHaveBeenCalledTimes(2)
+      expect(readState()).toEqual({ completed: ['1.0.0'] })
+      expect(writeBackfillSummary).toHaveBeenCalledWith([
+        expect.objectContaining({ versionName: '1.0.0', status: 'success' }),
+        expect.objectContaining({ versionName: '1.1.0', status: 'failed' })
+      ])
+    })
+
+    it('Does not record the releases of a dry run', async () => {
+      await processRelease(
+        createConfig({ 'backfill-from-tag': '1.0.0', 'dry-run': 'true' })
+      )
+
+      expect(getPullRequestUrlsForRelease).toHaveBeenCalledTimes(3)
+      expect(fs.existsSync(path.join(workspace, stateFile))).toBe(false)
+    })
+
+    it('Rejects a version name together with a backfill', async () => {
+      await expect(
+        processRelease(
+          createConfig({
+            'version-name': '1.2.0',
+            'backfill-from-tag': '1.0.0'
+          })
+        )
+      ).rejects.toThrow(
+        "Input 'version-name' cannot be combined with 'backfill-from-tag' or 'backfill-since'"
+      )
+      expect(listReleasesForBackfill).not.toHaveBeenCalled()
+    })
+  })
+})
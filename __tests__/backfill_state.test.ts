@@ -0,0 +1,81 @@
+/**
+ * Unit tests for the progress of a backfill, src/backfill_state.ts
+ */
+import * as fs from 'node:fs'
+import * as os from 'node:os'
+import * as path from 'node:path'
+import {
+  markReleaseCompleted,
+  readBackfillState
+} from '../src/backfill_state.js'
+
+describe('backfill_state.ts', () => {
+  const stateFile = 'backfill/state.json'
+  let workspace: string
+  const originalWorkspace = process.env.GITHUB_WORKSPACE
+
+  beforeEach(() => {
+    workspace = fs.mkdtempSync(path.join(os.tmpdir(), 'release-linker-'))
+    process.env.GITHUB_WORKSPACE = workspace
+  })
+
+  afterEach(() => {
+    fs.rmSync(workspace, { recursive: true, force: true })
+    if (originalWorkspace === undefined) {
+      delete process.env.GITHUB_WORKSPACE
+    } else {
+      process.env.GITHUB_WORKSPACE = originalWorkspace
+    }
+  })
+
+  describe('readBackfillState', () => {
+    it('Starts with no completed releases when the file does not exist', () => {
+      expect(readBackfillState(stateFile)).toEqual({ completed: [] })
+    })
+
+    it('Rejects a file that is not valid JSON', () => {
+      fs.writeFileSync(path.join(workspace, 'state.json'), '{"completed": [')
+
+      expect(() => readBackfillState('state.json')).toThrow(
+        "Backfill state file 'state.json' is not valid JSON"
+      )
+    })
+
+    it.each(['{}', '{"completed": "1.0.0"}', '{"completed": [1]}', 'null'])(
+      'Rejects %p',
+      (content) => {
+        fs.writeFileSync(path.join(workspace, 'state.json'), content)
+
+        expect(() => readBackfillState('state.json')).toThrow(
+          "Backfill state file 'state.json' must hold a 'completed' list of release tags."
+        )
+      }
+    )
+  })
+
+  describe('markReleaseCompleted', () => {
+    it('Saves the progress so that the next run resumes after it', () => {
+      const state = readBackfillState(stateFile)
+      markReleaseCompleted(stateFile, state, '1.0.0')
+      markReleaseCompleted(stateFile, state, '1.1.0')
+      markReleaseCompleted(stateFile, state, '1.1.0')
+
+      expect(readBackfillState(stateFile)).toEqual({
+        completed: ['1.0.0', '1.1.0']
+      })
+      expect(fs.readdirSync(path.join(workspace, 'backfill'))).toEqual([
+        'state.json'
+      ])
+    })
+
+    it('Keeps the saved progress when writing the new one fails', () => {
+      const state = readBackfillState(stateFile)
+      markReleaseCompleted(stateFile, state, '1.0.0')
+      // The temporary file cannot be written where a directory is in the way
+      fs.mkdirSync(path.join(workspace, `${stateFile}.tmp`))
+
+      expect(() => markReleaseCompleted(stateFile, state, '1.1.0')).toThrow()
+      expect(readBackfillState(stateFile)).toEqual({ completed: ['1.0.0'] })
+    })
+  })
+})
@@ -0,0 +1,196 @@
+/**
+ * Unit tests for the command-line logic, src/cli_main.ts
+ */
+import * as fs from 'node:fs'
+import * as os from 'node:os'
+import * as path from 'node:path'
+import { jest } from '@jest/globals'
+import * as core from '../__fixtures__/core.js'
+import type { AppConfig } from '../src/config.js'
+
+const processRelease = jest.fn<(appConfig: AppConfig) => Promise<void>>()
+
+jest.unstable_mockModule('@actions/core', () => core)
+jest.unstable_mockModule('@actions/github', () => ({
+  context: { serverUrl: 'https://github.com' }
+}))
+jest.unstable_mockModule('../src/attach_release.js', () => ({
+  processRelease
+}))
+
+const { formatWorkflowCommands, parseCliArguments, runCli } =
+  await import('../src/cli_main.js')
+
+describe('cli_main.ts', () => {
+  const originalEnv = process.env
+  let workspace: string
+
+  beforeEach(() => {
+    workspace = fs.mkdtempSync(path.join(os.tmpdir(), 'release-linker-'))
+    process.env = {
+      ...originalEnv,
+      GITHUB_WORKSPACE: workspace,
+      GITHUB_REPOSITORY: 'octo-org/octo-repo',
+      LINEAR_API_KEY: 'lin_api_key',
+      GITHUB_TOKEN: 'ghp_token'
+    }
+    jest.spyOn(console, 'log').mockImplementation(() => {})
+    jest.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    fs.rmSync(workspace, { recursive: true, force: true })
+    process.env = originalEnv
+    jest.restoreAllMocks()
+  })
+
+  describe('parseCliArguments', () => {
+    it('Reads the flags and the credentials from the environment', () => {
+      const source = parseCliArguments([
+        '--tag',
+        '1.2.3',
+        '--mode=both',
+        '--dry-run',
+        '--config-file',
+        'linker.yml'
+      ])
+
+      expect(source?.repo).toEqual({ owner: 'octo-org', repo: 'octo-repo' })
+      expect(source?.serverUrl).toBe('https://github.com')
+      expect(
+        Object.fromEntries(
+          [
+            'version-name',
+            'release-mode',
+            'dry-run',
+            'config-file',
+            'linear-api-key',
+            'github-token'
+          ].map((name) => [name, source?.getInput(name)])
+        )
+      ).toEqual({
+        'version-name': '1.2.3',
+        'release-mode': 'both',
+        'dry-run': 'true',
+        'config-file': 'linker.yml',
+        'linear-api-key': 'lin_api_key',
+        'github-token': 'ghp_token'
+      })
+    })
+
+    it('Sets other inputs with --set', () => {
+      const source = parseCliArguments([
+        '--set',
+        'target-state=Released',
+        '--set',
+        'issue-comment-template = Released in {version}=final'
+      ])
+
+      expect(source?.getInput('target-state')).toBe('Released')
+      expect(source?.getInput('issue-comment-template')).toBe(
+        'Released in {version}=final'
+      )
+    })
+
+    it('Returns no settings when the help is requested', () => {
+      expect(parseCliArguments(['-h'])).toBeNull()
+    })
+
+    it.each([
+      [['--verbose'], "Unknown option '--verbose'"],
+      [['--tag'], "Option '--tag <value>' argument missing"],
+      [['--set', 'target-state'], "Invalid --set 'target-state'"],
+      [['--set', 'linear-api-key=lin_other'], "Invalid --set 'linear-api-key"],
+      [['--repo', 'octo-repo'], "Invalid --repo 'octo-repo'"]
+    ])('Rejects %p', (args, message) => {
+      expect(() => parseCliArguments(args)).toThrow(message)
+    })
+
+    it('Requires the credentials', () => {
+      delete process.env.GITHUB_TOKEN
+
+      expect(() => parseCliArguments(['--tag', '1.2.3'])).toThrow(
+        'Missing --github-token; pass it or set $GITHUB_TOKEN.'
+      )
+    })
+  })
+
+  describe('runCli', () => {
+    it('Links the release and exits with 0', async () => {
+      await expect(runCli(['--tag', '1.2.3', '--mode', 'label'])).resolves.toBe(
+        0
+      )
+      expect(processRelease).toHaveBeenCalledWith(
+        expect.objectContaining({
+          githubOrg: 'octo-org',
+          githubRepo: 'octo-repo',
+          versionName: '1.2.3',
+          releaseMode: 'label'
+        })
+      )
+    })
+
+    it('Prints the help and exits with 0', async () => {
+      await expect(runCli(['--help'])).resolves.toBe(0)
+      expect(console.log).toHaveBeenCalledWith(
+        expect.stringContaining('Usage: node dist/cli.js')
+      )
+      expect(processRelease).not.toHaveBeenCalled()
+    })
+
+    it('Prints the usage and exits with 1 on an invalid argument', async () => {
+      await expect(runCli(['--tag'])).resolves.toBe(1)
+      expect(console.error).toHaveBeenCalledWith(
+        expect.stringContaining('Usage: node dist/cli.js')
+      )
+      expect(processRelease).not.toHaveBeenCalled()
+    })
+
+    it('Exits with 1 on an invalid mode', async () => {
+      await expect(runCli(['--tag', '1.2.3', '--mode', 'all'])).resolves.toBe(1)
+      expect(console.error).toHaveBeenCalledWith(
+        expect.stringContaining("Input 'release-mode' must be one of")
+      )
+      expect(processRelease).not.toHaveBeenCalled()
+    })
+
+    it('Exits with 1 when the run fails', async () => {
+      processRelease.mockRejectedValueOnce(new Error('Linear is down.'))
+
+      await expect(runCli(['--tag', '1.2.3', '--mode', 'both'])).resolves.toBe(
+        1
+      )
+      expect(console.error).toHaveBeenCalledWith('Linear is down.')
+    })
+  })
+
+  describe('formatWorkflowCommands', () => {
+    it('Prints groups, warnings and errors as plain text', () => {
+      expect(
+        formatWorkflowCommands(
+          [
+            '::group::Release 1.2.3',
+            'Looking up Linear issues...',
+            '::warning::Slow%0Aresponse of 100%25',
+            '::error file=src/a.ts,line=1::Failed',
+            '::endgroup::',
+            ''
+          ].join('\n')
+        )
+      ).toBe(
+        [
+          'Release 1.2.3',
+          'Looking up Linear issues...',
+          'Warning: Slow\nresponse of 100%',
+          'Error: Failed',
+          ''
+        ].join('\n')
+      )
+    })
+
+    it('Drops outputs and debug messages', () => {
+      expect(formatWorkflowCommands('::set-output name=pr-count::3\n')).toBe('')
+      expect(formatWorkflowCommands('::debug::Request sent\n')).toBe('')
+    })
+  })
+})
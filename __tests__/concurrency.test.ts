@@ -0,0 +1,43 @@
+/**
+ * Unit tests for running callbacks concurrently, src/concurrency.ts
+ */
+import { forEachConcurrently } from '../src/concurrency.js'
+
+describe('concurrency.ts', () => {
+  describe('forEachConcurrently', () => {
+    it('Runs at most the given number of callbacks at a time', async () => {
+      let running = 0
+      let maxRunning = 0
+      const processed: number[] = []
+
+      await forEachConcurrently([1, 2, 3, 4, 5, 6, 7], 3, async (item) => {
+        running++
+        maxRunning = Math.max(maxRunning, running)
+        await new Promise((resolve) => setImmediate(resolve))
+        processed.push(item)
+        running--
+      })
+
+      expect(maxRunning).toBe(3)
+      expect(processed.sort()).toEqual([1, 2, 3, 4, 5, 6, 7])
+    })
+
+    it('Rejects with the error of a callback', async () => {
+      await expect(
+        forEachConcurrently([1, 2], 2, async (item) => {
+          if (item === 2) {
+            throw new Error('Failed item 2')
+          }
+        })
+      ).rejects.toThrow('Failed item 2')
+    })
+
+    it('Does nothing without items', async () => {
+      await expect(
+        forEachConcurrently([], 5, async () => {
+          throw new Error('Unexpected call')
+        })
+      ).resolves.toBeUndefined()
+    })
+  })
+})
@@ -0,0 +1,205 @@
+/**
+ * Unit tests for reading the settings of a run, src/config.ts
+ */
+import * as fs from 'node:fs'
+import * as os from 'node:os'
+import * as path from 'node:path'
+import { jest } from '@jest/globals'
+import * as core from '../__fixtures__/core.js'
+
+jest.unstable_mockModule('@actions/core', () => core)
+
+const {
+  loadConfig,
+  LabelPolicy,
+  PreviousReleaseStrategy,
+  ReleaseMode,
+  WorkflowStateType
+} = await import('../src/config.js')
+
+/**
+ * Returns a source of settings with the required inputs and the given ones.
+ */
+function createSource(inputs: Record<string, string>) {
+  return {
+    getInput: (name: string) =>
+      ({
+        'linear-api-key': 'lin_api_key',
+        'github-token': 'ghp_token',
+        'version-name': '1.2.3',
+        'release-mode': 'both',
+        'config-file': '',
+        ...inputs
+      })[name] || '',
+    repo: { owner: 'octo-org', repo: 'octo-repo' },
+    serverUrl: 'https://github.com'
+  }
+}
+
+describe('config.ts', () => {
+  let workspace: string
+  const originalWorkspace = process.env.GITHUB_WORKSPACE
+
+  beforeEach(() => {
+    workspace = fs.mkdtempSync(path.join(os.tmpdir(), 'release-linker-'))
+    process.env.GITHUB_WORKSPACE = workspace
+  })
+
+  afterEach(() => {
+    fs.rmSync(workspace, { recursive: true, force: true })
+    if (originalWorkspace === undefined) {
+      delete process.env.GITHUB_WORKSPACE
+    } else {
+      process.env.GITHUB_WORKSPACE = originalWorkspace
+    }
+  })
+
+  it('Uses the defaults for the settings that are not given', () => {
+    const config = loadConfig(createSource({}))
+
+    expect(config).toMatchObject({
+      linearApiUrl: 'https://api.linear.app/graphql',
+      githubServerUrl: 'https://github.com',
+      githubOrg: 'octo-org',
+      githubRepo: 'octo-repo',
+      versionName: '1.2.3',
+      releaseMode: ReleaseMode.Both,
+      dryRun: false,
+      linearBatchSize: 50,
+      previousReleaseStrategy: PreviousReleaseStrategy.Created,
+      labelPolicy: LabelPolicy.Replace,
+      labelGroupTemplate: '{repo} releases',
+      labelRetentionCount: 0,
+      paths: [],
+      backfillSince: null
+    })
+  })
+
+  it('Reads lists, numbers, colors and dates', () => {
+    const config = loadConfig(
+      createSource({
+        'label-teams': 'ENG, OPS\nWEB,',
+        'include-state-types': 'Started, completed',
+        'linear-batch-size': '25',
+        'label-retention-count': '0',
+        'label-color': '5E6AD2',
+        'backfill-since': '2026-01-31'
+      })
+    )
+
+    expect(config.labelTeamKeys).toEqual(['ENG', 'OPS', 'WEB'])
+    expect(config.includeStateTypes).toEqual([
+      WorkflowStateType.Started,
+      WorkflowStateType.Completed
+    ])
+    expect(config.linearBatchSize).toBe(25)
+    expect(config.labelRetentionCount).toBe(0)
+    expect(config.labelColor).toBe('#5E6AD2')
+    expect(config.backfillSince).toEqual(new Date('2026-01-31'))
+  })
+
+  it.each([
+    ['release-mode', 'all', "Input 'release-mode' must be one of"],
+    ['dry-run', 'yes', "Input 'dry-run' must be 'true' or 'false'"],
+    ['linear-batch-size', '0', "Input 'linear-batch-size' must be a positive"],
+    ['label-retention-days', '-1', "Input 'label-retention-days' must be a"],
+    ['linear-api-url', 'ftp://linear', "Input 'linear-api-url' must be an"],
+    ['label-color', 'blue', "Input 'label-color' must be a hex color"],
+    ['backfill-since', 'last week', "Input 'backfill-since' must be an ISO"],
+    ['exclude-state-types', 'done', "Input 'exclude-state-types' must only"]
+  ])('Rejects %p set to %p', (name, value, message) => {
+    expect(() => loadConfig(createSource({ [name]: value }))).toThrow(message)
+  })
+
+  it('Requires the release mode', () => {
+    expect(() => loadConfig(createSource({ 'release-mode': '' }))).toThrow(
+      "Input 'release-mode' is required"
+    )
+  })
+
+  it('Reads the settings that are not given from the configuration file', () => {
+    fs.mkdirSync(path.join(workspace, '.github'))
+    fs.writeFileSync(
+      path.join(workspace, '.github/release-linker.yml'),
+      [
+        'release-mode: label',
+        'target-state: Released',
+        'label-teams: [ENG, OPS]',
+        'linear-batch-size: 10'
+      ].join('\n')
+    )
+
+    const config = loadConfig(
+      createSource({ 'release-mode': '', 'target-state': 'Done' })
+    )
+
+    expect(config.releaseMode).toBe(ReleaseMode.Label)
+    expect(config.targetStateName).toBe('Done')
+    expect(config.labelTeamKeys).toEqual(['ENG', 'OPS'])
+    expect(config.linearBatchSize).toBe(10)
+  })
+
+  it('Names the configuration file key of an invalid setting', () => {
+    fs.writeFileSync(
+      path.join(workspace, 'linker.yml'),
+      'previous-release-strategy: newest\n'
+    )
+
+    expect(() =>
+      loadConfig(createSource({ 'config-file': 'linker.yml' }))
+    ).toThrow(
+      "Key 'previous-release-strategy' in 'linker.yml' must be one of 'created', 'semver', got 'newest'."
+    )
+  })
+
+  describe('label-policy', () => {
+    it('Accepts accumulate with a label group per release', () => {
+      const config = loadConfig(
+        createSource({
+          'label-policy': 'accumulate',
+          'label-group-template': '{repo} {version}',
+          'prerelease-label-group-template': '{repo} {version} prerelease'
+        })
+      )
+
+      expect(config.labelPolicy).toBe(LabelPolicy.Accumulate)
+      expect(core.warning).not.toHaveBeenCalled()
+    })
+
+    it('Warns that the label retention has nothing to archive', () => {
+      loadConfig(
+        createSource({
+          'label-policy': 'accumulate',
+          'label-group-template': '{repo} {version}',
+          'prerelease-label-group-template': '{repo} {version} prerelease',
+          'label-retention-count': '5'
+        })
+      )
+
+      expect(core.warning).toHaveBeenCalledWith(
+        expect.stringContaining(
+          "'label-retention-count' and 'label-retention-days' have no effect"
+        )
+      )
+    })
+
+    it('Rejects accumulate when releases share a label group', () => {
+      expect(() =>
+        loadConfig(createSource({ 'label-policy': 'accumulate' }))
+      ).toThrow(
+        "Input 'label-group-template' ('{repo} releases') needs '{version}'"
+      )
+    })
+
+    it('Rejects accumulate when prereleases share a label group', () => {
+      expect(() =>
+        loadConfig(
+          createSource({
+            'label-policy': 'accumulate',
+            'label-group-template': '{repo} {version}'
+          })
+        )
+      ).toThrow("Input 'prerelease-label-group-template'")
+    })
+  })
+})
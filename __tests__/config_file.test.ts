@@ -0,0 +1,131 @@
+/**
+ * Unit tests for the configuration file, src/config_file.ts
+ */
+import * as fs from 'node:fs'
+import * as os from 'node:os'
+import * as path from 'node:path'
+import { readConfigFile } from '../src/config_file.js'
+
+describe('config_file.ts', () => {
+  let workspace: string
+  const originalWorkspace = process.env.GITHUB_WORKSPACE
+
+  /**
+   * Writes a file into the workspace, creating its directory.
+   */
+  function writeFile(filePath: string, content: string) {
+    const absolutePath = path.join(workspace, filePath)
+    fs.mkdirSync(path.dirname(absolutePath), { recursive: true })
+    fs.writeFileSync(absolutePath, content)
+  }
+
+  beforeEach(() => {
+    workspace = fs.mkdtempSync(path.join(os.tmpdir(), 'release-linker-'))
+    process.env.GITHUB_WORKSPACE = workspace
+  })
+
+  afterEach(() => {
+    fs.rmSync(workspace, { recursive: true, force: true })
+    if (originalWorkspace === undefined) {
+      delete process.env.GITHUB_WORKSPACE
+    } else {
+      process.env.GITHUB_WORKSPACE = originalWorkspace
+    }
+  })
+
+  describe('readConfigFile', () => {
+    it('Reads nothing when the default file does not exist', () => {
+      expect(readConfigFile('')).toEqual({ path: '', values: {} })
+    })
+
+    it('Reads the default file', () => {
+      writeFile('.github/release-linker.yml', 'release-mode: both\n')
+
+      expect(readConfigFile('')).toEqual({
+        path: '.github/release-linker.yml',
+        values: { 'release-mode': 'both' }
+      })
+    })
+
+    it('Converts the values to the format of action inputs', () => {
+      writeFile(
+        'linker.yml',
+        [
+          'dry-run: true',
+          'linear-batch-size: 25',
+          'label-teams:',
+          '  - ENG',
+          '  - OPS',
+          'target-state:',
+          "issue-comment-template: 'Released in {version}'"
+        ].join('\n')
+      )
+
+      expect(readConfigFile('linker.yml').values).toEqual({
+        'dry-run': 'true',
+        'linear-batch-size': '25',
+        'label-teams': 'ENG\nOPS',
+        'target-state': '',
+        'issue-comment-template': 'Released in {version}'
+      })
+    })
+
+    it('Reads an empty file as no settings', () => {
+      writeFile('linker.yml', '# Nothing yet\n')
+
+      expect(readConfigFile('linker.yml')).toEqual({
+        path: 'linker.yml',
+        values: {}
+      })
+    })
+
+    it('Requires a given file to exist', () => {
+      expect(() => readConfigFile('missing.yml')).toThrow(
+        "Configuration file 'missing.yml' does not exist."
+      )
+    })
+
+    it('Rejects a file that is not valid YAML', () => {
+      writeFile('linker.yml', 'release-mode: [both\n')
+
+      expect(() => readConfigFile('linker.yml')).toThrow(
+        "Configuration file 'linker.yml' is not valid YAML"
+      )
+    })
+
+    it('Rejects a file that is not a mapping', () => {
+      writeFile('linker.yml', '- release-mode\n')
+
+      expect(() => readConfigFile('linker.yml')).toThrow(
+        "Configuration file 'linker.yml' must be a mapping of settings."
+      )
+    })
+
+    it('Rejects an unknown key', () => {
+      writeFile('linker.yml', 'linear-api-key: lin_api_key\n')
+
+      expect(() => readConfigFile('linker.yml')).toThrow(
+        "Unknown key 'linear-api-key' in configuration file 'linker.yml'."
+      )
+    })
+
+    it.each(['previous-tag', 'backfill-from-tag', 'backfill-since'])(
+      'Rejects %p, which only applies to a single run',
+      (key) => {
+        writeFile('linker.yml', `${key}: 1.0.0\n`)
+
+        expect(() => readConfigFile('linker.yml')).toThrow(
+          `Unknown key '${key}' in configuration file 'linker.yml'.`
+        )
+      }
+    )
+
+    it('Rejects a value of an unsupported type', () => {
+      writeFile('linker.yml', 'label-teams:\n  eng: ENG\n')
+
+      expect(() => readConfigFile('linker.yml')).toThrow(
+        "Key 'label-teams' in configuration file 'linker.yml' must be a string, number, boolean or list of those."
+      )
+    })
+  })
+})
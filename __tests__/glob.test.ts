@@ -0,0 +1,64 @@
+/**
+ * Unit tests for the path globs, src/glob.ts
+ */
+import { getGlobPath, globToRegExp, matchesAnyGlob } from '../src/glob.js'
+
+describe('glob.ts', () => {
+  describe('globToRegExp', () => {
+    it.each([
+      ['packages/api/**', 'packages/api/src/index.ts'],
+      ['packages/api', 'packages/api/src/index.ts'],
+      ['packages/api/', 'packages/api/package.json'],
+      ['./packages/api', 'packages/api/package.json'],
+      ['**/*.md', 'README.md'],
+      ['**/*.md', 'docs/guide/setup.md'],
+      ['packages/*/src/**', 'packages/web/src/app.ts'],
+      ['src/?.ts', 'src/a.ts'],
+      ['docs/v1.0', 'docs/v1.0/index.md']
+    ])('Matches %p against %p', (glob, path) => {
+      expect(globToRegExp(glob).test(path)).toBe(true)
+    })
+
+    it.each([
+      ['packages/api/**', 'packages/api-client/index.ts'],
+      ['packages/api', 'packages/web/api/index.ts'],
+      ['*.md', 'docs/guide.md'],
+      ['packages/*/src/**', 'packages/web/lib/src/app.ts'],
+      ['src/?.ts', 'src/ab.ts'],
+      ['docs/v1.0', 'docs/v1x0/index.md']
+    ])('Does not match %p against %p', (glob, path) => {
+      expect(globToRegExp(glob).test(path)).toBe(false)
+    })
+  })
+
+  describe('matchesAnyGlob', () => {
+    it('Matches if one of the globs matches', () => {
+      expect(
+        matchesAnyGlob('packages/web/index.ts', [
+          'packages/api',
+          'packages/web'
+        ])
+      ).toBe(true)
+      expect(matchesAnyGlob('README.md', ['packages/api'])).toBe(false)
+      expect(matchesAnyGlob('README.md', [])).toBe(false)
+    })
+  })
+
+  describe('getGlobPath', () => {
+    it.each([
+      ['packages/api/**', 'packages/api'],
+      ['packages/api', 'packages/api'],
+      ['./packages/api/', 'packages/api'],
+      ['package.json', 'package.json']
+    ])('Reads the path of %p', (glob, path) => {
+      expect(getGlobPath(glob)).toBe(path)
+    })
+
+    it.each([['**'], ['*.md'], ['packages/*/src'], ['src/?.ts'], ['/']])(
+      'Has no path for %p',
+      (glob) => {
+        expect(getGlobPath(glob)).toBeNull()
+      }
+    )
+  })
+})
@@ -0,0 +1,103 @@
+/**
+ * Unit tests for the release comments on Linear issues, src/issue_comment.ts
+ */
+import { jest } from '@jest/globals'
+import * as core from '../__fixtures__/core.js'
+import { createLinearClient } from '../__fixtures__/linear_client.js'
+import type { LinearIssue } from '../src/linear.js'
+
+jest.unstable_mockModule('@actions/core', () => core)
+
+const { createReleaseComment, mentionsReleaseUrl } =
+  await import('../src/issue_comment.js')
+
+const releasesUrl = 'https://github.com/octo-org/octo-repo/releases/tag'
+const linearIssue: LinearIssue = {
+  id: 'issue-1',
+  identifier: 'ENG-1',
+  title: 'Fix',
+  labels: []
+}
+
+/**
+ * Returns a Linear client for an issue with the given comments, which records the
+ * comments created.
+ */
+function createIssueWithComments(comments: string[]) {
+  const createdComments: string[] = []
+  const { linearClient } = createLinearClient((query, variables) => {
+    if (query.includes('query IssueComments')) {
+      return {
+        issue: {
+          comments: {
+            pageInfo: { hasNextPage: false },
+            nodes: comments.map((body) => ({ body }))
+          }
+        }
+      }
+    }
+    if (query.includes('mutation CommentCreate')) {
+      createdComments.push(variables.body as string)
+      return { commentCreate: { success: true } }
+    }
+    throw new Error(`Unexpected request: ${query}`)
+  })
+
+  return { linearClient, createdComments }
+}
+
+describe('issue_comment.ts', () => {
+  describe('mentionsReleaseUrl', () => {
+    it.each([
+      [`Released in [1.4.0](${releasesUrl}/1.4.0) on 2026-10-19.`],
+      [`Released in ${releasesUrl}/1.4.0`],
+      [`Released in ${releasesUrl}/1.4.0.`],
+      [`Released in <${releasesUrl}/1.4.0>, see the notes.`]
+    ])('Finds the release URL in %p', (text) => {
+      expect(mentionsReleaseUrl(text, `${releasesUrl}/1.4.0`)).toBe(true)
+    })
+
+    it.each([
+      [`Released in [1.4.0-rc.1](${releasesUrl}/1.4.0-rc.1).`],
+      [`Released in [1.2.30](${releasesUrl}/1.2.30).`],
+      [`Released in ${releasesUrl}/1.4.0.1`]
+    ])('Does not find the release URL in %p', (text) => {
+      expect(mentionsReleaseUrl(text, `${releasesUrl}/1.4.0`)).toBe(false)
+    })
+  })
+
+  describe('createReleaseComment', () => {
+    it('Comments on the final release after the release candidate', async () => {
+      const { linearClient, createdComments } = createIssueWithComments([
+        `Released in [1.4.0-rc.1](${releasesUrl}/1.4.0-rc.1) on 2026-10-12.`
+      ])
+      const body = `Released in [1.4.0](${releasesUrl}/1.4.0) on 2026-10-19.`
+
+      await expect(
+        createReleaseComment(
+          linearIssue,
+          body,
+          `${releasesUrl}/1.4.0`,
+          linearClient
+        )
+      ).resolves.toBe(true)
+      expect(createdComments).toEqual([body])
+    })
+
+    it('Does not comment on the same release twice', async () => {
+      const { linearClient, createdComments } = createIssueWithComments([
+        `Released in [1.4.0](${releasesUrl}/1.4.0) on 2026-10-19.`
+      ])
+
+      await expect(
+        createReleaseComment(
+          linearIssue,
+          'Shipped in 1.4.0.',
+          `${releasesUrl}/1.4.0`,
+          linearClient
+        )
+      ).resolves.toBe(false)
+      expect(createdComments).toEqual([])
+    })
+  })
+})
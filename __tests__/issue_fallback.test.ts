@@ -0,0 +1,159 @@
+/**
+ * Unit tests for finding Linear issues by the identifiers in a PR, src/issue_fallback.ts
+ */
+import { jest } from '@jest/globals'
+import * as core from '../__fixtures__/core.js'
+import { createLinearClient } from '../__fixtures__/linear_client.js'
+import type { PullRequestDetails } from '../src/github.js'
+
+const getPullRequestDetails =
+  jest.fn<(prUrl: string) => Promise<PullRequestDetails | null>>()
+
+jest.unstable_mockModule('@actions/core', () => core)
+jest.unstable_mockModule('../src/github.js', () => ({ getPullRequestDetails }))
+
+const { findLinearIssuesByPullRequestIdentifiers } =
+  await import('../src/issue_fallback.js')
+
+const prUrl = 'https://github.com/octo-org/octo-repo/pull/1'
+
+/**
+ * Returns a Linear client that knows the issues with the given identifiers.
+ */
+function createIssueClient(identifiers: string[]) {
+  return createLinearClient((query, variables) => {
+    if (query.includes('query GetIssueByIdentifier')) {
+      const identifier = String(variables.id)
+      return {
+        issue: identifiers.includes(identifier)
+          ? { id: `issue-${identifier}`, identifier, title: identifier }
+          : null
+      }
+    }
+    throw new Error(`Unexpected request: ${query}`)
+  })
+}
+
+function createDetails(
+  details: Partial<PullRequestDetails>
+): PullRequestDetails {
+  return {
+    title: '',
+    headRefName: '',
+    body: '',
+    mergeCommitMessage: '',
+    ...details
+  }
+}
+
+describe('issue_fallback.ts', () => {
+  describe('findLinearIssuesByPullRequestIdentifiers', () => {
+    it('Prefers the identifiers of the PR title over the other sources', async () => {
+      getPullRequestDetails.mockResolvedValueOnce(
+        createDetails({
+          title: 'ENG-1: Fix checkout',
+          headRefName: 'jane/eng-2-fix-checkout',
+          body: 'Follow-up of ENG-3',
+          mergeCommitMessage: 'Fix checkout (ENG-4)'
+        })
+      )
+      const { linearClient } = createIssueClient([
+        'ENG-1',
+        'ENG-2',
+        'ENG-3',
+        'ENG-4'
+      ])
+
+      const linearIssues = await findLinearIssuesByPullRequestIdentifiers(
+        prUrl,
+        ['ENG'],
+        'ghp_token',
+        linearClient
+      )
+
+      expect(linearIssues.map((issue) => issue.identifier)).toEqual(['ENG-1'])
+    })
+
+    it('Returns every existing issue of the first source that has one', async () => {
+      getPullRequestDetails.mockResolvedValueOnce(
+        createDetails({
+          title: 'ENG-9: Fix checkout',
+          headRefName: 'jane/fix-checkout',
+          body: 'Fixes ENG-2 and ENG-3, see ENG-9',
+          mergeCommitMessage: 'Fix checkout (ENG-4)'
+        })
+      )
+      const { linearClient, request } = createIssueClient([
+        'ENG-2',
+        'ENG-3',
+        'ENG-4'
+      ])
+
+      const linearIssues = await findLinearIssuesByPullRequestIdentifiers(
+        prUrl,
+        ['ENG'],
+        'ghp_token',
+        linearClient
+      )
+
+      expect(linearIssues.map((issue) => issue.identifier)).toEqual([
+        'ENG-2',
+        'ENG-3'
+      ])
+      // ENG-9 is looked up once, although the body mentions it again
+      expect(request.mock.calls.map(([, variables]) => variables)).toEqual([
+        { id: 'ENG-9' },
+        { id: 'ENG-2' },
+        { id: 'ENG-3' }
+      ])
+    })
+
+    it('Only looks up identifiers with the given team keys', async () => {
+      getPullRequestDetails.mockResolvedValueOnce(
+        createDetails({ title: 'Hash with SHA-256, encode as UTF-8 (ENG-5)' })
+      )
+      const { linearClient, request } = createIssueClient(['ENG-5'])
+
+      const linearIssues = await findLinearIssuesByPullRequestIdentifiers(
+        prUrl,
+        ['ENG'],
+        'ghp_token',
+        linearClient
+      )
+
+      expect(linearIssues.map((issue) => issue.identifier)).toEqual(['ENG-5'])
+      expect(request).toHaveBeenCalledTimes(1)
+    })
+
+    it('Finds nothing when no identifier exists in Linear', async () => {
+      getPullRequestDetails.mockResolvedValueOnce(
+        createDetails({ title: 'ENG-7: Fix checkout' })
+      )
+      const { linearClient } = createIssueClient([])
+
+      await expect(
+        findLinearIssuesByPullRequestIdentifiers(
+          prUrl,
+          ['ENG'],
+          'ghp_token',
+          linearClient
+        )
+      ).resolves.toEqual([])
+    })
+
+    it('Finds nothing when the PR cannot be loaded', async () => {
+      getPullRequestDetails.mockResolvedValueOnce(null)
+      const { linearClient, request } = createIssueClient([])
+
+      await expect(
+        findLinearIssuesByPullRequestIdentifiers(
+          prUrl,
+          [],
+          'ghp_token',
+          linearClient
+        )
+      ).resolves.toEqual([])
+      expect(request).not.toHaveBeenCalled()
+    })
+  })
+})
@@ -0,0 +1,110 @@
+/**
+ * Unit tests for filtering the issues of a release, src/issue_filter.ts
+ */
+import type { LinearIssue } from '../src/linear.js'
+import { getIssueFilterSkipReason, IssueFilter } from '../src/issue_filter.js'
+
+const noFilter: IssueFilter = {
+  includeTeams: [],
+  excludeTeams: [],
+  includeStateTypes: [],
+  excludeStateTypes: [],
+  includeLabels: [],
+  excludeLabels: [],
+  includeProjects: [],
+  excludeProjects: []
+}
+
+const linearIssue: LinearIssue = {
+  id: 'issue-1',
+  identifier: 'ENG-1',
+  title: 'Fix checkout',
+  labels: [
+    { id: 'label-1', name: 'Bug' },
+    { id: 'label-2', name: 'Customer' }
+  ],
+  state: { id: 'state-1', name: 'In Review', type: 'started', position: 3 },
+  team: { id: 'team-1', key: 'ENG', name: 'Engineering' },
+  project: { id: 'project-1', name: 'Checkout' }
+}
+
+const unassignedIssue: LinearIssue = {
+  id: 'issue-2',
+  identifier: 'ENG-2',
+  title: 'Triage',
+  labels: []
+}
+
+describe('issue_filter.ts', () => {
+  describe('getIssueFilterSkipReason', () => {
+    it('Updates every issue without a filter', () => {
+      expect(getIssueFilterSkipReason(linearIssue, noFilter)).toBeNull()
+      expect(getIssueFilterSkipReason(unassignedIssue, noFilter)).toBeNull()
+    })
+
+    it.each<[string, Partial<IssueFilter>]>([
+      ['team', { includeTeams: ['eng'] }],
+      ['state type', { includeStateTypes: ['started', 'completed'] }],
+      ['label', { includeLabels: ['bug', 'feature'] }],
+      ['project name', { includeProjects: ['checkout'] }],
+      ['project ID', { includeProjects: ['project-1'] }],
+      ['other team', { excludeTeams: ['OPS'] }],
+      ['other label', { excludeLabels: ['Internal'] }]
+    ])('Updates an issue that matches the %s filter', (_, filter) => {
+      expect(
+        getIssueFilterSkipReason(linearIssue, { ...noFilter, ...filter })
+      ).toBeNull()
+    })
+
+    it.each<[Partial<IssueFilter>, string]>([
+      [{ includeTeams: ['OPS'] }, "team 'ENG' is not included"],
+      [{ excludeTeams: ['eng'] }, "team 'ENG' is excluded"],
+      [
+        { includeStateTypes: ['completed'] },
+        "state 'In Review' (started) is not included"
+      ],
+      [
+        { excludeStateTypes: ['started'] },
+        "state 'In Review' (started) is excluded"
+      ],
+      [
+        { includeLabels: ['Feature', 'Chore'] },
+        "has none of the labels 'Feature', 'Chore'"
+      ],
+      [{ excludeLabels: ['customer'] }, "label 'Customer' is excluded"],
+      [{ includeProjects: ['Billing'] }, "project 'Checkout' is not included"],
+      [{ excludeProjects: ['project-1'] }, "project 'Checkout' is excluded"]
+    ])('Skips an issue for %p', (filter, reason) => {
+      expect(
+        getIssueFilterSkipReason(linearIssue, { ...noFilter, ...filter })
+      ).toBe(reason)
+    })
+
+    it.each<[Partial<IssueFilter>, string]>([
+      [{ includeTeams: ['ENG'] }, 'has no team and teams are filtered'],
+      [
+        { includeStateTypes: ['started'] },
+        'has no state and state types are filtered'
+      ],
+      [
+        { includeProjects: ['Checkout'] },
+        'has no project and projects are filtered'
+      ]
+    ])('Skips an issue without the filtered field for %p', (filter, reason) => {
+      expect(
+        getIssueFilterSkipReason(unassignedIssue, { ...noFilter, ...filter })
+      ).toBe(reason)
+    })
+
+    it('Does not exclude an issue without the excluded field', () => {
+      expect(
+        getIssueFilterSkipReason(unassignedIssue, {
+          ...noFilter,
+          excludeTeams: ['ENG'],
+          excludeStateTypes: ['started'],
+          excludeProjects: ['Checkout']
+        })
+      ).toBeNull()
+    })
+  })
+})
@@ -0,0 +1,148 @@
+/**
+ * Unit tests for the release labels, src/label_attach.ts
+ */
+import { jest } from '@jest/globals'
+import * as core from '../__fixtures__/core.js'
+import { createLinearClient } from '../__fixtures__/linear_client.js'
+import type { LinearIssue } from '../src/linear.js'
+
+jest.unstable_mockModule('@actions/core', () => core)
+
+const { addLabelToIssue, ensureReleaseLabel, getLabelRepoName } =
+  await import('../src/label_attach.js')
+
+interface StoredLabel {
+  id: string
+  name: string
+  parentId?: string
+}
+
+/**
+ * A Linear workspace holding only labels, enough to create and assign them.
+ */
+function createLabelWorkspace() {
+  const labels: StoredLabel[] = []
+  const issueLabelIds: string[][] = []
+
+  const toNode = (label: StoredLabel) => {
+    const parent = labels.find(({ id }) => id === label.parentId)
+    return {
+      id: label.id,
+      name: label.name,
+      parent: parent ? { id: parent.id, name: parent.name } : null
+    }
+  }
+  const create = (name: string, parentId?: string) => {
+    const label = { id: `label-${labels.length + 1}`, name, parentId }
+    labels.push(label)
+    return { issueLabelCreate: { success: true, issueLabel: toNode(label) } }
+  }
+
+  const { linearClient } = createLinearClient((query, variables) => {
+    if (query.includes('query FindParent')) {
+      const filter = variables.filter as { name: { eq: string } }
+      return {
+        issueLabels: {
+          nodes: labels.filter(
+            (label) => label.name === filter.name.eq && !label.parentId
+          )
+        }
+      }
+    }
+    if (query.includes('mutation CreateParent')) {
+      return create(variables.name as string)
+    }
+    if (query.includes('query FindChild')) {
+      return {
+        issueLabels: {
+          nodes: labels
+            .filter((label) => label.name === variables.name)
+            .map(toNode)
+        }
+      }
+    }
+    if (query.includes('mutation CreateChild')) {
+      return create(variables.name as string, variables.parentId as string)
+    }
+    if (query.includes('mutation UpdateIssueLabels')) {
+      issueLabelIds.push(variables.labelIds as string[])
+      return { issueUpdate: { success: true } }
+    }
+    throw new Error(`Unexpected request: ${query}`)
+  })
+
+  return { linearClient, issueLabelIds }
+}
+
+function createIssue(): LinearIssue {
+  return { id: 'issue-1', identifier: 'ENG-1', title: 'Fix', labels: [] }
+}
+
+describe('label_attach.ts', () => {
+  it('Keeps both labels of an issue shipped again with a group per release', async () => {
+    const { linearClient, issueLabelIds } = createLabelWorkspace()
+    const options = { groupTemplate: '{repo} {version}' }
+    const linearIssue = createIssue()
+
+    const firstLabel = await ensureReleaseLabel(
+      '1.2.3',
+      'repo',
+      linearClient,
+      false,
+      false,
+      options
+    )
+    linearIssue.labels.push(firstLabel)
+    const secondLabel = await ensureReleaseLabel(
+      '1.2.4',
+      'repo',
+      linearClient,
+      false,
+      false,
+      options
+    )
+    await addLabelToIssue(linearIssue, secondLabel, linearClient, false, false)
+
+    expect(firstLabel.parent?.id).not.toEqual(secondLabel.parent?.id)
+    expect(issueLabelIds).toEqual([[firstLabel.id, secondLabel.id]])
+  })
+
+  it('Replaces the earlier label of the same group', async () => {
+    const { linearClient, issueLabelIds } = createLabelWorkspace()
+    const linearIssue = createIssue()
+
+    const firstLabel = await ensureReleaseLabel('1.2.3', 'repo', linearClient)
+    linearIssue.labels.push(firstLabel)
+    const secondLabel = await ensureReleaseLabel('1.2.4', 'repo', linearClient)
+    await addLabelToIssue(linearIssue, secondLabel, linearClient)
+
+    expect(firstLabel.parent?.id).toEqual(secondLabel.parent?.id)
+    expect(issueLabelIds).toEqual([[secondLabel.id]])
+  })
+
+  it('Does not update an issue that already has the label', async () => {
+    const { linearClient, issueLabelIds } = createLabelWorkspace()
+    const linearIssue = createIssue()
+
+    const label = await ensureReleaseLabel('1.2.3', 'repo', linearClient)
+    linearIssue.labels.push(label)
+
+    await expect(
+      addLabelToIssue(linearIssue, label, linearClient, false, false)
+    ).resolves.toBe(true)
+    expect(issueLabelIds).toEqual([])
+  })
+
+  it.each([
+    ['', 'repo'],
+    ['v', 'repo'],
+    ['api-', 'repo/api'],
+    ['api-v', 'repo/api'],
+    ['api/v', 'repo/api'],
+    ['api@', 'repo/api'],
+    ['@scope/api@', 'repo/@scope/api'],
+    ['dev', 'repo/dev']
+  ])('Names the labels of tag prefix %p after %p', (tagPrefix, repoName) => {
+    expect(getLabelRepoName('repo', tagPrefix)).toBe(repoName)
+  })
+})
@@ -0,0 +1,215 @@
+/**
+ * Unit tests for archiving stale release labels, src/label_retention.ts
+ */
+import { jest } from '@jest/globals'
+import * as core from '../__fixtures__/core.js'
+import { createLinearClient } from '../__fixtures__/linear_client.js'
+
+jest.unstable_mockModule('@actions/core', () => core)
+
+const { archiveStaleReleaseLabels } = await import('../src/label_retention.js')
+const { getLabelNamePattern } = await import('../src/label_attach.js')
+
+const day = 24 * 60 * 60 * 1000
+
+interface GroupLabel {
+  name: string
+  /** How many days ago the label was created. */
+  age: number
+  /** Whether the label is still on an open issue. */
+  open?: boolean
+}
+
+/**
+ * Returns a Linear client for a label group with the given labels, which records the
+ * labels it archives.
+ */
+function createLabelGroup(labels: GroupLabel[]) {
+  const archived: string[] = []
+  const { linearClient } = createLinearClient((query, variables) => {
+    if (query.includes('query GetLabelGroupChildren')) {
+      return {
+        issueLabel: {
+          children: {
+            pageInfo: { hasNextPage: false },
+            nodes: labels.map(({ name, age }) => ({
+              id: `label-${name}`,
+              name,
+              createdAt: new Date(Date.now() - age * day).toISOString()
+            }))
+          }
+        }
+      }
+    }
+    if (query.includes('query OpenIssuesWithLabel')) {
+      const open = labels.some(
+        (label) => `label-${label.name}` === variables.labelId && label.open
+      )
+      return { issues: { nodes: open ? [{ id: 'issue-1' }] : [] } }
+    }
+    if (query.includes('mutation IssueLabelArchive')) {
+      archived.push(String(variables.id).replace(/^label-/, ''))
+      return { issueLabelArchive: { success: true } }
+    }
+    throw new Error(`Unexpected request: ${query}`)
+  })
+
+  return { linearClient, archived }
+}
+
+const options = {
+  keepCount: 0,
+  maxAgeDays: 0,
+  includeOpenIssues: false,
+  namePattern: getLabelNamePattern('{version} ({repo})', 'repo'),
+  tagPrefix: ''
+}
+
+describe('label_retention.ts', () => {
+  describe('archiveStaleReleaseLabels', () => {
+    it('Keeps the labels of the newest versions', async () => {
+      // 1.1.1 patches an older release line after 1.2.0 was released
+      const { linearClient, archived } = createLabelGroup([
+        { name: '1.0.0 (repo)', age: 30 },
+        { name: '1.2.0 (repo)', age: 20 },
+        { name: '1.1.1 (repo)', age: 10 },
+        { name: '1.3.0 (repo)', age: 0 }
+      ])
+
+      const result = await archiveStaleReleaseLabels(
+        'group-1',
+        ['label-1.3.0 (repo)'],
+        { ...options, keepCount: 2 },
+        linearClient
+      )
+
+      expect(result).toEqual({
+        archivedLabels: ['1.1.1 (repo)', '1.0.0 (repo)'],
+        failures: []
+      })
+      expect(archived).toEqual(['1.1.1 (repo)', '1.0.0 (repo)'])
+    })
+
+    it('Orders labels without a version by creation date after the others', async () => {
+      const { linearClient, archived } = createLabelGroup([
+        { name: 'Hotfix', age: 5 },
+        { name: 'Legacy', age: 40 },
+        { name: '1.0.0 (repo)', age: 30 }
+      ])
+
+      await archiveStaleReleaseLabels(
+        'group-1',
+        [],
+        { ...options, keepCount: 2 },
+        linearClient
+      )
+
+      expect(archived).toEqual(['Legacy'])
+    })
+
+    it('Archives the labels older than the maximum age', async () => {
+      const { linearClient, archived } = createLabelGroup([
+        { name: '1.0.0 (repo)', age: 100 },
+        { name: '1.1.0 (repo)', age: 50 },
+        { name: '1.2.0 (repo)', age: 10 }
+      ])
+
+      await archiveStaleReleaseLabels(
+        'group-1',
+        [],
+        { ...options, maxAgeDays: 30 },
+        linearClient
+      )
+
+      expect(archived).toEqual(['1.1.0 (repo)', '1.0.0 (repo)'])
+    })
+
+    it('Never archives the labels of the current release', async () => {
+      const { linearClient, archived } = createLabelGroup([
+        { name: '2.0.0 (repo)', age: 0 },
+        { name: '1.0.1 (repo)', age: 90 }
+      ])
+
+      await archiveStaleReleaseLabels(
+        'group-1',
+        ['label-1.0.1 (repo)'],
+        { ...options, keepCount: 1, maxAgeDays: 30 },
+        linearClient
+      )
+
+      expect(archived).toEqual([])
+    })
+
+    it('Keeps labels on open issues unless asked to archive them', async () => {
+      const labels = [
+        { name: '1.2.0 (repo)', age: 0 },
+        { name: '1.1.0 (repo)', age: 10, open: true },
+        { name: '1.0.0 (repo)', age: 20 }
+      ]
+      const kept = createLabelGroup(labels)
+      const archivedAnyway = createLabelGroup(labels)
+
+      await archiveStaleReleaseLabels(
+        'group-1',
+        [],
+        { ...options, keepCount: 1 },
+        kept.linearClient
+      )
+      await archiveStaleReleaseLabels(
+        'group-1',
+        [],
+        { ...options, keepCount: 1, includeOpenIssues: true },
+        archivedAnyway.linearClient
+      )
+
+      expect(kept.archived).toEqual(['1.0.0 (repo)'])
+      expect(archivedAnyway.archived).toEqual(['1.1.0 (repo)', '1.0.0 (repo)'])
+    })
+
+    it('Reports a label that fails to archive and goes on', async () => {
+      const { linearClient } = createLinearClient((query, variables) => {
+        if (query.includes('query GetLabelGroupChildren')) {
+          return {
+            issueLabel: {
+              children: {
+                nodes: ['1.0.0 (repo)', '1.1.0 (repo)', '1.2.0 (repo)'].map(
+                  (name) => ({
+                    id: `label-${name}`,
+                    name,
+                    createdAt: new Date().toISOString()
+                  })
+                )
+              }
+            }
+          }
+        }
+        if (query.includes('mutation IssueLabelArchive')) {
+          return {
+            issueLabelArchive: {
+              success: variables.id !== 'label-1.1.0 (repo)'
+            }
+          }
+        }
+        throw new Error(`Unexpected request: ${query}`)
+      })
+
+      const result = await archiveStaleReleaseLabels(
+        'group-1',
+        [],
+        { ...options, keepCount: 1, includeOpenIssues: true },
+        linearClient
+      )
+
+      expect(result).toEqual({
+        archivedLabels: ['1.0.0 (repo)'],
+        failures: [
+          {
+            subject: "Label retention of '1.1.0 (repo)'",
+            error:
+              "Error: Failed to archive label '1.1.0 (repo)': Linear reported no success."
+          }
+        ]
+      })
+    })
+  })
+})
@@ -0,0 +1,172 @@
+/**
+ * Unit tests for the Linear GraphQL client, src/linear_client.ts
+ */
+import { jest } from '@jest/globals'
+import * as core from '../__fixtures__/core.js'
+
+interface MockResponse {
+  status: number
+  data?: unknown
+  headers?: Record<string, string>
+}
+
+const post = jest.fn<() => Promise<MockResponse>>()
+
+jest.unstable_mockModule('@actions/core', () => core)
+jest.unstable_mockModule('axios', () => ({ default: { post } }))
+
+const { LinearClient, LinearGraphQLError, LinearHttpError } =
+  await import('../src/linear_client.js')
+
+const query = `
+  query GetIssue($id: String!) {
+    issue(id: $id) { id }
+  }
+`
+
+const mutation = `
+  mutation CreateComment($input: CommentCreateInput!) {
+    commentCreate(input: $input) { success }
+  }
+`
+
+const issueData = { issue: { id: 'issue-1' } }
+
+describe('linear_client.ts', () => {
+  let delays: number[]
+
+  beforeEach(() => {
+    delays = []
+    jest.spyOn(global, 'setTimeout').mockImplementation(((
+      callback: () => void,
+      ms: number
+    ) => {
+      delays.push(ms)
+      callback()
+      return 0
+    }) as unknown as typeof setTimeout)
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  function createClient() {
+    return new LinearClient({
+      apiKey: 'lin_api_key',
+      maxRetries: 2,
+      baseDelayMs: 1_000
+    })
+  }
+
+  it('Retries a failed query and returns the data of the next attempt', async () => {
+    post
+      .mockResolvedValueOnce({ status: 502, data: 'Bad Gateway' })
+      .mockRejectedValueOnce(new Error('socket hang up'))
+      .mockResolvedValueOnce({ status: 200, data: { data: issueData } })
+
+    await expect(
+      createClient().request(query, { id: 'ENG-1' })
+    ).resolves.toEqual(issueData)
+    expect(post).toHaveBeenCalledTimes(3)
+    expect(delays).toEqual([1_000, 2_000])
+  })
+
+  it('Gives up on a query after the configured retries', async () => {
+    post.mockResolvedValue({ status: 503, data: 'Unavailable' })
+
+    const request = createClient().request(query)
+
+    await expect(request).rejects.toThrow(LinearHttpError)
+    await expect(request).rejects.toThrow(
+      'Linear GetIssue failed with HTTP 503'
+    )
+    expect(post).toHaveBeenCalledTimes(3)
+  })
+
+  it('Waits at most 60 seconds before a retry', async () => {
+    post
+      .mockResolvedValueOnce({
+        status: 429,
+        data: {},
+        headers: { 'retry-after': '300' }
+      })
+      .mockResolvedValueOnce({ status: 200, data: { data: issueData } })
+
+    await createClient().request(query)
+
+    expect(delays).toEqual([60_000])
+  })
+
+  it('Waits at most 60 seconds for the request budget to reset', async () => {
+    post
+      .mockResolvedValueOnce({
+        status: 200,
+        data: { data: issueData },
+        headers: {
+          'x-ratelimit-requests-remaining': '0',
+          'x-ratelimit-requests-reset': String(Date.now() + 600_000)
+        }
+      })
+      .mockResolvedValueOnce({ status: 200, data: { data: issueData } })
+
+    const client = createClient()
+    await client.request(query)
+    await client.request(query)
+
+    expect(delays).toHaveLength(1)
+    expect(delays[0]).toBeLessThanOrEqual(60_000)
+    expect(delays[0]).toBeGreaterThan(59_000)
+  })
+
+  it('Retries a mutation that is rate limited with a GraphQL error', async () => {
+    post
+      .mockResolvedValueOnce({
+        status: 200,
+        data: {
+          errors: [
+            { message: 'Rate limit', extensions: { code: 'RATELIMITED' } }
+          ]
+        }
+      })
+      .mockResolvedValueOnce({
+        status: 200,
+        data: { data: { commentCreate: { success: true } } }
+      })
+
+    await expect(createClient().request(mutation)).resolves.toEqual({
+      commentCreate: { success: true }
+    })
+    expect(post).toHaveBeenCalledTimes(2)
+  })
+
+  it('Does not retry a mutation that fails with a 5xx status', async () => {
+    post.mockResolvedValue({ status: 500, data: 'Internal Server Error' })
+
+    await expect(createClient().request(mutation)).rejects.toThrow(
+      'Linear CreateComment failed with HTTP 500'
+    )
+    expect(post).toHaveBeenCalledTimes(1)
+  })
+
+  it('Does not retry a mutation that fails on the network', async () => {
+    post.mockRejectedValue(new Error('socket hang up'))
+
+    await expect(createClient().request(mutation)).rejects.toThrow(
+      'Linear CreateComment failed: Error: socket hang up'
+    )
+    expect(post).toHaveBeenCalledTimes(1)
+  })
+
+  it('Throws the GraphQL errors of a request without retrying', async () => {
+    post.mockResolvedValue({
+      status: 200,
+      data: { errors: [{ message: 'Entity not found' }] }
+    })
+
+    await expect(createClient().request(query)).rejects.toThrow(
+      new LinearGraphQLError('GetIssue', [{ message: 'Entity not found' }])
+    )
+    expect(post).toHaveBeenCalledTimes(1)
+  })
+})
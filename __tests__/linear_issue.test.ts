@@ -0,0 +1,73 @@
+/**
+ * Unit tests for finding Linear issues, src/linear_issue.ts
+ */
+import { createLinearClient } from '../__fixtures__/linear_client.js'
+import { extractIssueIdentifiers, listTeamKeys } from '../src/linear_issue.js'
+
+describe('linear_issue.ts', () => {
+  describe('extractIssueIdentifiers', () => {
+    it('Finds identifiers in a PR title', () => {
+      expect(
+        extractIssueIdentifiers('ENG-123: Fix checkout (see also OPS-7)', [])
+      ).toEqual(['ENG-123', 'OPS-7'])
+    })
+
+    it('Upper-cases identifiers of a generated branch name', () => {
+      expect(
+        extractIssueIdentifiers('jane/eng-123-fix-checkout-totals', [])
+      ).toEqual(['ENG-123'])
+    })
+
+    it('Returns every identifier once, in order of appearance', () => {
+      expect(
+        extractIssueIdentifiers('ENG-2 fixes eng-1, follow-up of ENG-2', [])
+      ).toEqual(['ENG-2', 'ENG-1'])
+    })
+
+    it('Only accepts the given team keys', () => {
+      expect(
+        extractIssueIdentifiers('ENG-1, OPS-2 and UTF-8', ['eng', 'OPS'])
+      ).toEqual(['ENG-1', 'OPS-2'])
+    })
+
+    it('Ignores look-alikes of identifiers with the keys of the workspace', () => {
+      expect(
+        extractIssueIdentifiers('ENG-4: Use UTF-8 and SHA-256 hashes', ['ENG'])
+      ).toEqual(['ENG-4'])
+    })
+
+    it('Ignores identifiers inside longer words', () => {
+      expect(
+        extractIssueIdentifiers('XENG-1 ENG-1x sha256-abc ENG-12', ['ENG'])
+      ).toEqual(['ENG-12'])
+    })
+
+    it('Finds nothing in text without identifiers', () => {
+      expect(extractIssueIdentifiers('Bump dependencies', [])).toEqual([])
+    })
+  })
+
+  describe('listTeamKeys', () => {
+    it('Lists the keys of the teams on every page', async () => {
+      const { linearClient, request } = createLinearClient(
+        (query, variables) =>
+          variables.cursor
+            ? {
+                teams: {
+                  pageInfo: { hasNextPage: false },
+                  nodes: [{ key: 'OPS' }]
+                }
+              }
+            : {
+                teams: {
+                  pageInfo: { hasNextPage: true, endCursor: 'page-2' },
+                  nodes: [{ key: 'ENG' }]
+                }
+              }
+      )
+
+      await expect(listTeamKeys(linearClient)).resolves.toEqual(['ENG', 'OPS'])
+      expect(request).toHaveBeenCalledTimes(2)
+    })
+  })
+})
@@ -7,56 +7,80 @@
  */
 import { jest } from '@jest/globals'
 import * as core from '../__fixtures__/core.js'
-import { wait } from '../__fixtures__/wait.js'
+import type { AppConfig } from '../src/config.js'
+
+const processRelease = jest.fn<(appConfig: AppConfig) => Promise<void>>()
 
 // Mocks should be declared before the module being tested is imported.
 jest.unstable_mockModule('@actions/core', () => core)
-jest.unstable_mockModule('../src/wait.js', () => ({ wait }))
+jest.unstable_mockModule('@actions/github', () => ({
+  context: {
+    repo: { owner: 'octo-org', repo: 'octo-repo' },
+    serverUrl: 'https://github.com'
+  }
+}))
+jest.unstable_mockModule('../src/attach_release.js', () => ({
+  processRelease
+}))
 
 // The module being tested should be imported dynamically. This ensures that the
 // mocks are used in place of any actual dependencies.
 const { run } = await import('../src/main.js')
 
 describe('main.ts', () => {
+  const inputs: Record<string, string> = {
+    'linear-api-key': 'lin_api_key',
+    'github-token': 'ghp_token',
+    'version-name': '1.2.3',
+    'release-mode': 'both'
+  }
+
   beforeEach(() => {
     // Set the action's inputs as return values from core.getInput().
-    core.getInput.mockImplementation(() => '500')
-
-    // Mock the wait function so that it does not actually wait.
-    wait.mockImplementation(() => Promise.resolve('done!'))
+    core.getInput.mockImplementation((name) => inputs[name] || '')
+    processRelease.mockResolvedValue()
   })
 
   afterEach(() => {
     jest.resetAllMocks()
   })
 
-  it('Sets the time output', async () => {
+  it('Processes the release with the settings of the action', async () => {
     await run()
 
-    // Verify the time output was set.
-    expect(core.setOutput).toHaveBeenNthCalledWith(
-      1,
-      'time',
-      // Simple regex to match a time string in the format HH:MM:SS.
-      expect.stringMatching(/^\d{2}:\d{2}:\d{2}/)
-    )
+    expect(processRelease).toHaveBeenCalledTimes(1)
+    expect(processRelease.mock.calls[0][0]).toMatchObject({
+      linearApiKey: 'lin_api_key',
+      githubToken: 'ghp_token',
+      githubOrg: 'octo-org',
+      githubRepo: 'octo-repo',
+      versionName: '1.2.3',
+      releaseMode: 'both'
+    })
+    expect(core.setFailed).not.toHaveBeenCalled()
   })
 
-  it('Sets a failed status', async () => {
-    // Clear the getInput mock and return an invalid value.
-    core.getInput.mockClear().mockReturnValueOnce('this is not a number')
+  it('Fails without processing the release when a setting is invalid', async () => {
+    core.getInput.mockImplementation((name) =>
+      name === 'dry-run' ? 'yes' : inputs[name] || ''
+    )
+
+    await run()
+
+    expect(processRelease).not.toHaveBeenCalled()
+    expect(core.setFailed).toHaveBeenCalledWith(
+      new Error("Input 'dry-run' must be 'true' or 'false', got 'yes'.")
+    )
+  })
 
-    // Clear the wait mock and return a rejected promise.
-    wait
-      .mockClear()
-      .mockRejectedValueOnce(new Error('milliseconds is not a number'))
+  it('Sets a failed status when the release cannot be processed', async () => {
+    processRelease.mockRejectedValueOnce(new Error('Release 1.2.3 not found'))
 
     await run()
 
-    // Verify that the action was marked as failed.
     expect(core.setFailed).toHaveBeenNthCalledWith(
       1,
-      'milliseconds is not a number'
+      new Error('Release 1.2.3 not found')
     )
   })
 })
@@ -0,0 +1,117 @@
+/**
+ * Unit tests for releasing parent issues, src/parent_issue.ts
+ */
+import { createLinearClient } from '../__fixtures__/linear_client.js'
+import {
+  ChildIssue,
+  getParentIssue,
+  getUnreleasedChildren,
+  ParentIssue
+} from '../src/parent_issue.js'
+
+function createParent(children: Partial<ChildIssue>[]): ParentIssue {
+  return {
+    linearIssue: {
+      id: 'parent-1',
+      identifier: 'ENG-10',
+      title: 'Checkout revamp',
+      labels: []
+    },
+    children: children.map((child, index) => ({
+      id: `issue-${index + 1}`,
+      identifier: `ENG-${index + 1}`,
+      labelGroupIds: [],
+      hasReleaseAttachment: false,
+      ...child
+    }))
+  }
+}
+
+describe('parent_issue.ts', () => {
+  describe('getParentIssue', () => {
+    it('Returns the parent with the release status of its sub-issues', async () => {
+      const { linearClient, request } = createLinearClient(() => ({
+        issue: {
+          id: 'parent-1',
+          identifier: 'ENG-10',
+          title: 'Checkout revamp',
+          children: {
+            nodes: [
+              {
+                id: 'issue-1',
+                identifier: 'ENG-1',
+                state: { type: 'completed' },
+                labels: { nodes: [{ parent: { id: 'group-1' } }, {}] },
+                attachments: { nodes: [{ id: 'attachment-1' }] }
+              },
+              { id: 'issue-2', identifier: 'ENG-2' }
+            ]
+          }
+        }
+      }))
+
+      const parent = await getParentIssue(
+        'parent-1',
+        'https://github.com/octo-org/octo-repo/releases/',
+        linearClient
+      )
+
+      expect(parent?.linearIssue.identifier).toBe('ENG-10')
+      expect(parent?.children).toEqual([
+        {
+          id: 'issue-1',
+          identifier: 'ENG-1',
+          stateType: 'completed',
+          labelGroupIds: ['group-1'],
+          hasReleaseAttachment: true
+        },
+        {
+          id: 'issue-2',
+          identifier: 'ENG-2',
+          stateType: undefined,
+          labelGroupIds: [],
+          hasReleaseAttachment: false
+        }
+      ])
+      expect(request).toHaveBeenCalledWith(expect.any(String), {
+        id: 'parent-1',
+        releasesUrl: 'https://github.com/octo-org/octo-repo/releases/'
+      })
+    })
+
+    it('Returns null for a parent that does not exist', async () => {
+      const { linearClient } = createLinearClient(() => ({ issue: null }))
+
+      await expect(
+        getParentIssue('parent-1', 'https://github.com/', linearClient)
+      ).resolves.toBeNull()
+    })
+  })
+
+  describe('getUnreleasedChildren', () => {
+    it('Counts the sub-issues released by the run or by an earlier release', () => {
+      const parent = createParent([
+        {},
+        { hasReleaseAttachment: true },
+        { labelGroupIds: ['group-1'] },
+        { stateType: 'canceled' }
+      ])
+
+      expect(
+        getUnreleasedChildren(parent, new Set(['issue-1']), ['group-1'])
+      ).toEqual([])
+    })
+
+    it('Lists the sub-issues that have not shipped yet', () => {
+      const parent = createParent([
+        {},
+        { labelGroupIds: ['group-2'] },
+        { stateType: 'completed' }
+      ])
+
+      expect(
+        getUnreleasedChildren(parent, new Set(['issue-1']), ['group-1'])
+      ).toEqual(['ENG-2', 'ENG-3'])
+    })
+  })
+})
@@ -0,0 +1,75 @@
+/**
+ * Unit tests for the release updates of Linear projects, src/project_update.ts
+ */
+import { jest } from '@jest/globals'
+import * as core from '../__fixtures__/core.js'
+import { createLinearClient } from '../__fixtures__/linear_client.js'
+
+jest.unstable_mockModule('@actions/core', () => core)
+
+const { createReleaseProjectUpdate } = await import('../src/project_update.js')
+
+const releasesUrl = 'https://github.com/octo-org/octo-repo/releases/tag'
+const project = { id: 'project-1', name: 'Checkout' }
+
+/**
+ * Returns a Linear client for a project with the given updates, which records the
+ * updates posted.
+ */
+function createProjectWithUpdates(updates: string[]) {
+  const postedUpdates: string[] = []
+  const { linearClient } = createLinearClient((query, variables) => {
+    if (query.includes('query ProjectUpdates')) {
+      return {
+        project: {
+          projectUpdates: {
+            pageInfo: { hasNextPage: false },
+            nodes: updates.map((body) => ({ body }))
+          }
+        }
+      }
+    }
+    if (query.includes('mutation ProjectUpdateCreate')) {
+      postedUpdates.push(variables.body as string)
+      return { projectUpdateCreate: { success: true } }
+    }
+    throw new Error(`Unexpected request: ${query}`)
+  })
+
+  return { linearClient, postedUpdates }
+}
+
+describe('project_update.ts', () => {
+  it('Posts an update for the final release after the release candidate', async () => {
+    const { linearClient, postedUpdates } = createProjectWithUpdates([
+      `Released in [1.4.0-rc.1](${releasesUrl}/1.4.0-rc.1) on 2026-10-12:`
+    ])
+    const body = `Released in [1.4.0](${releasesUrl}/1.4.0) on 2026-10-19:`
+
+    await expect(
+      createReleaseProjectUpdate(
+        project,
+        body,
+        `${releasesUrl}/1.4.0`,
+        linearClient
+      )
+    ).resolves.toBe(true)
+    expect(postedUpdates).toEqual([body])
+  })
+
+  it('Does not post an update for the same release twice', async () => {
+    const { linearClient, postedUpdates } = createProjectWithUpdates([
+      `Released in [1.4.0](${releasesUrl}/1.4.0) on 2026-10-19:`
+    ])
+
+    await expect(
+      createReleaseProjectUpdate(
+        project,
+        'Released 1.4.0',
+        `${releasesUrl}/1.4.0`,
+        linearClient
+      )
+    ).resolves.toBe(false)
+    expect(postedUpdates).toEqual([])
+  })
+})
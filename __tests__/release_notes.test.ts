@@ -0,0 +1,168 @@
+/**
+ * Unit tests for the Linear section of the release notes, src/release_notes.ts
+ */
+import { ReleaseNotesGroupBy } from '../src/config.js'
+import { getReleaseLabelGroupPatterns } from '../src/label_attach.js'
+import type { LinearIssue } from '../src/linear.js'
+import {
+  buildReleaseNotesSection,
+  releaseNotesEndMarker,
+  releaseNotesStartMarker,
+  replaceReleaseNotesSection
+} from '../src/release_notes.js'
+
+const section = [
+  releaseNotesStartMarker,
+  '## Linear issues',
+  '',
+  '- ENG-1 Fix checkout',
+  releaseNotesEndMarker
+].join('\n')
+
+describe('release_notes.ts', () => {
+  describe('buildReleaseNotesSection', () => {
+    const linearIssue: LinearIssue = {
+      id: 'issue-1',
+      identifier: 'ENG-1',
+      title: 'Fix checkout',
+      labels: [
+        { id: 'label-1', name: 'Bug' },
+        {
+          id: 'label-2',
+          name: '1.1.0 (octo-repo)',
+          parent: { id: 'group-1', name: 'octo-repo releases' }
+        },
+        {
+          id: 'label-3',
+          name: '1.2.0-rc.1 (octo-repo)',
+          parent: { id: 'group-2', name: 'octo-repo prereleases' }
+        },
+        {
+          id: 'label-4',
+          name: 'Web',
+          parent: { id: 'group-3', name: 'Platform' }
+        }
+      ]
+    }
+
+    it('Groups by label without the release label groups', () => {
+      const lines = buildReleaseNotesSection(
+        [linearIssue],
+        [],
+        [],
+        ReleaseNotesGroupBy.Label,
+        getReleaseLabelGroupPatterns('octo-repo')
+      ).split('\n')
+
+      expect(lines.filter((line) => line.startsWith('### '))).toEqual([
+        '### Bug',
+        '### Web'
+      ])
+    })
+
+    it('Leaves out the label groups of every release under a per-release template', () => {
+      const patterns = getReleaseLabelGroupPatterns('octo-repo', {
+        groupTemplate: '{repo} {version}',
+        prereleaseGroupTemplate: '{repo} {version} prerelease'
+      })
+      const section = buildReleaseNotesSection(
+        [
+          {
+            ...linearIssue,
+            labels: [
+              {
+                id: 'label-5',
+                name: '1.1.0',
+                parent: { id: 'group-4', name: 'octo-repo 1.1.0' }
+              },
+              {
+                id: 'label-6',
+                name: '1.2.0-rc.1',
+                parent: {
+                  id: 'group-5',
+                  name: 'octo-repo 1.2.0-rc.1 prerelease'
+                }
+              }
+            ]
+          }
+        ],
+        [],
+        [],
+        ReleaseNotesGroupBy.Label,
+        patterns
+      )
+
+      expect(section).toContain('### Other\n\n- ENG-1 Fix checkout')
+    })
+
+    it('Lists the pull requests without an issue and those of filtered issues', () => {
+      expect(
+        buildReleaseNotesSection(
+          [],
+          ['https://github.com/octo-org/octo-repo/pull/3'],
+          ['https://github.com/octo-org/octo-repo/pull/2'],
+          ReleaseNotesGroupBy.Team
+        )
+      ).toBe(
+        [
+          releaseNotesStartMarker,
+          '## Linear issues',
+          '',
+          'No Linear issues were linked to this release.',
+          '',
+          '### Pull requests without a Linear issue',
+          '',
+          '- https://github.com/octo-org/octo-repo/pull/3',
+          '',
+          '### Pull requests of filtered issues',
+          '',
+          '- https://github.com/octo-org/octo-repo/pull/2',
+          '',
+          releaseNotesEndMarker
+        ].join('\n')
+      )
+    })
+  })
+
+  describe('replaceReleaseNotesSection', () => {
+    it('Appends the section to a body without one', () => {
+      expect(
+        replaceReleaseNotesSection('## Changes\n\n- Fix checkout\n\n', section)
+      ).toBe(`## Changes\n\n- Fix checkout\n\n${section}\n`)
+    })
+
+    it('Fills an empty body with the section', () => {
+      expect(replaceReleaseNotesSection('  \n', section)).toBe(`${section}\n`)
+    })
+
+    it('Replaces the section added before and keeps the text around it', () => {
+      const body = [
+        'Intro',
+        releaseNotesStartMarker,
+        '## Linear issues',
+        '',
+        '- ENG-0 Outdated',
+        releaseNotesEndMarker,
+        'Footer'
+      ].join('\n')
+
+      expect(replaceReleaseNotesSection(body, section)).toBe(
+        `Intro\n${section}\nFooter`
+      )
+    })
+
+    it('Leaves the body unchanged when the section is the same', () => {
+      const body = `Intro\n\n${section}\n`
+
+      expect(replaceReleaseNotesSection(body, section)).toBe(body)
+    })
+
+    it('Appends the section when the end marker is missing', () => {
+      const body = `Intro\n${releaseNotesStartMarker}\n- ENG-0 Outdated`
+
+      expect(replaceReleaseNotesSection(body, section)).toBe(
+        `${body}\n\n${section}\n`
+      )
+    })
+  })
+})
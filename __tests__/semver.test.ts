@@ -0,0 +1,69 @@
+/**
+ * Unit tests for the semantic versions of release tags, src/semver.ts
+ */
+import { compareVersions, parseVersion, stripTagPrefix } from '../src/semver.js'
+
+describe('semver.ts', () => {
+  describe('parseVersion', () => {
+    it.each([
+      ['1.2.3', { major: 1, minor: 2, patch: 3, prerelease: [] }],
+      ['v1.2.3', { major: 1, minor: 2, patch: 3, prerelease: [] }],
+      [
+        'v1.4.0-rc.1',
+        { major: 1, minor: 4, patch: 0, prerelease: ['rc', '1'] }
+      ],
+      ['2.0.0+build.5', { major: 2, minor: 0, patch: 0, prerelease: [] }]
+    ])('Parses %p', (tag, version) => {
+      expect(parseVersion(tag)).toEqual(version)
+    })
+
+    it.each([['1.2'], ['release-1.2.3'], ['1.2.3.4'], ['latest']])(
+      'Does not parse %p',
+      (tag) => {
+        expect(parseVersion(tag)).toBeNull()
+      }
+    )
+  })
+
+  describe('compareVersions', () => {
+    // Each version is lower than the next one
+    const ordered = [
+      '1.0.0-alpha',
+      '1.0.0-alpha.1',
+      '1.0.0-alpha.beta',
+      '1.0.0-beta',
+      '1.0.0-beta.2',
+      '1.0.0-beta.11',
+      '1.0.0-rc.1',
+      '1.0.0',
+      '1.0.1',
+      '1.2.9',
+      '1.2.10',
+      '2.0.0'
+    ]
+
+    it.each(ordered.slice(1).map((tag, index) => [ordered[index], tag]))(
+      'Sorts %p before %p',
+      (lower, higher) => {
+        const a = parseVersion(lower)!
+        const b = parseVersion(higher)!
+        expect(compareVersions(a, b)).toBeLessThan(0)
+        expect(compareVersions(b, a)).toBeGreaterThan(0)
+      }
+    )
+
+    it('Ignores the v prefix and build metadata', () => {
+      expect(
+        compareVersions(parseVersion('v1.2.3')!, parseVersion('1.2.3+build')!)
+      ).toBe(0)
+    })
+  })
+
+  describe('stripTagPrefix', () => {
+    it('Removes the prefix of a monorepo component', () => {
+      expect(stripTagPrefix('api-v1.2.3', 'api-')).toBe('v1.2.3')
+      expect(stripTagPrefix('web-v1.2.3', 'api-')).toBe('web-v1.2.3')
+      expect(stripTagPrefix('1.2.3', '')).toBe('1.2.3')
+    })
+  })
+})
@@ -0,0 +1,68 @@
+/**
+ * Unit tests for moving released issues, src/state_transition.ts
+ */
+import type { LinearIssue, LinearWorkflowState } from '../src/linear.js'
+import { getStateTransitionSkipReason } from '../src/state_transition.js'
+
+const states: Record<string, LinearWorkflowState> = {
+  backlog: { id: 'state-1', name: 'Backlog', type: 'backlog', position: 0 },
+  inProgress: {
+    id: 'state-2',
+    name: 'In Progress',
+    type: 'started',
+    position: 1
+  },
+  inReview: { id: 'state-3', name: 'In Review', type: 'started', position: 2 },
+  done: { id: 'state-4', name: 'Done', type: 'completed', position: 3 },
+  released: { id: 'state-5', name: 'Released', type: 'completed', position: 4 },
+  canceled: { id: 'state-6', name: 'Canceled', type: 'canceled', position: 5 }
+}
+
+function createIssue(state?: LinearWorkflowState): LinearIssue {
+  return {
+    id: 'issue-1',
+    identifier: 'ENG-1',
+    title: 'Fix checkout',
+    labels: [],
+    state
+  }
+}
+
+describe('state_transition.ts', () => {
+  describe('getStateTransitionSkipReason', () => {
+    it.each([
+      ['backlog', 'inReview'],
+      ['inProgress', 'inReview'],
+      ['inReview', 'done'],
+      ['done', 'released']
+    ])('Moves an issue from %p to the later %p', (current, target) => {
+      expect(
+        getStateTransitionSkipReason(
+          createIssue(states[current]),
+          states[target]
+        )
+      ).toBeNull()
+    })
+
+    it('Moves an issue without a state', () => {
+      expect(
+        getStateTransitionSkipReason(createIssue(), states.released)
+      ).toBeNull()
+    })
+
+    it.each([
+      ['released', 'released', "already in 'Released'"],
+      ['canceled', 'released', "canceled ('Canceled')"],
+      ['released', 'done', "already in later state 'Released'"],
+      ['done', 'inReview', "already in later state 'Done'"],
+      ['inReview', 'inProgress', "already in later state 'In Review'"]
+    ])('Leaves an issue in %p when moving to %p', (current, target, reason) => {
+      expect(
+        getStateTransitionSkipReason(
+          createIssue(states[current]),
+          states[target]
+        )
+      ).toBe(reason)
+    })
+  })
+})
@@ -0,0 +1,165 @@
+/**
+ * Unit tests for the job summary, src/summary.ts
+ */
+import * as fs from 'node:fs'
+import * as os from 'node:os'
+import * as path from 'node:path'
+import * as core from '@actions/core'
+import {
+  PullRequestReport,
+  writeBackfillSummary,
+  writeReleaseSummary,
+  writeUnlinkSummary
+} from '../src/summary.js'
+
+const pullRequests: PullRequestReport[] = [
+  {
+    prUrl: 'https://github.com/octo-org/octo-repo/pull/1',
+    issueIdentifier: 'ENG-1',
+    attachment: 'success',
+    label: 'failed',
+    comment: 'skipped'
+  },
+  {
+    prUrl: 'https://github.com/octo-org/octo-repo/pull/2',
+    attachment: 'skipped',
+    label: 'skipped',
+    comment: 'skipped'
+  }
+]
+
+describe('summary.ts', () => {
+  const originalSummaryFile = process.env.GITHUB_STEP_SUMMARY
+  let directory: string
+  let summaryFile: string
+
+  // core.summary keeps the path of the first file it writes to
+  beforeAll(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'release-linker-'))
+    summaryFile = path.join(directory, 'summary.md')
+  })
+
+  beforeEach(() => {
+    fs.writeFileSync(summaryFile, '')
+    process.env.GITHUB_STEP_SUMMARY = summaryFile
+  })
+
+  afterEach(() => {
+    core.summary.emptyBuffer()
+  })
+
+  afterAll(() => {
+    fs.rmSync(directory, { recursive: true, force: true })
+    if (originalSummaryFile === undefined) {
+      delete process.env.GITHUB_STEP_SUMMARY
+    } else {
+      process.env.GITHUB_STEP_SUMMARY = originalSummaryFile
+    }
+  })
+
+  const readSummary = () => fs.readFileSync(summaryFile, 'utf8')
+
+  describe('writeReleaseSummary', () => {
+    it('Lists every pull request with its issue and the outcome of each step', async () => {
+      await writeReleaseSummary('1.2.0', pullRequests, [])
+
+      const summary = readSummary()
+      expect(summary).toContain('<h2>Release 1.2.0 linked to Linear</h2>')
+      expect(summary).toContain(
+        'Found 2 pull request(s), 1 with a Linear issue.'
+      )
+      expect(summary).toContain(
+        '<tr><td><a href="https://github.com/octo-org/octo-repo/pull/1">https://github.com/octo-org/octo-repo/pull/1</a></td>' +
+          '<td>ENG-1</td><td>✅ Success</td><td>❌ Failed</td><td>➖ Skipped</td></tr>'
+      )
+      expect(summary).toContain(
+        '<td>none</td><td>➖ Skipped</td><td>➖ Skipped</td><td>➖ Skipped</td></tr>'
+      )
+      expect(summary).not.toContain('Skipped issues')
+      expect(summary).not.toContain('Failures')
+    })
+
+    it('Lists the skipped issues and the failures with their reason', async () => {
+      await writeReleaseSummary(
+        '1.2.0',
+        pullRequests,
+        [{ subject: 'ENG-1 (label)', error: 'Error: <label> not found' }],
+        [{ identifier: 'ENG-3', skipReason: "state 'Canceled' is excluded" }]
+      )
+
+      const summary = readSummary()
+      expect(summary).toContain('<h3>Skipped issues</h3>')
+      expect(summary).toContain(
+        "<li><strong>ENG-3</strong>: state 'Canceled' is excluded</li>"
+      )
+      expect(summary).toContain('<h3>Failures</h3>')
+      expect(summary).toContain(
+        '<li><strong>ENG-1 (label)</strong>: Error: &lt;label&gt; not found</li>'
+      )
+    })
+
+    it('Leaves out the table of a release without pull requests', async () => {
+      await writeReleaseSummary('1.2.0', [], [])
+
+      const summary = readSummary()
+      expect(summary).toContain(
+        'Found 0 pull request(s), 0 with a Linear issue.'
+      )
+      expect(summary).not.toContain('<table>')
+    })
+
+    it('Writes nothing outside GitHub Actions', async () => {
+      delete process.env.GITHUB_STEP_SUMMARY
+
+      await writeReleaseSummary('1.2.0', pullRequests, [])
+
+      expect(readSummary()).toBe('')
+      expect(core.summary.isEmptyBuffer()).toBe(true)
+    })
+  })
+
+  describe('writeUnlinkSummary', () => {
+    it('Lists the unlinked issues and the failures', async () => {
+      await writeUnlinkSummary(
+        '1.2.0',
+        ['ENG-1', 'ENG-2'],
+        [{ subject: 'ENG-3', error: 'Error: Linear is down' }]
+      )
+
+      const summary = readSummary()
+      expect(summary).toContain('<h2>Release 1.2.0 unlinked from Linear</h2>')
+      expect(summary).toContain('Removed the release from 2 Linear issue(s).')
+      expect(summary).toContain('<ul><li>ENG-1</li><li>ENG-2</li></ul>')
+      expect(summary).toContain(
+        '<li><strong>ENG-3</strong>: Error: Linear is down</li>'
+      )
+    })
+  })
+
+  describe('writeBackfillSummary', () => {
+    it('Lists every release with its status and counts', async () => {
+      await writeBackfillSummary([
+        { versionName: '1.0.0', status: 'skipped' },
+        {
+          versionName: '1.1.0',
+          status: 'success',
+          prCount: 4,
+          issueCount: 3,
+          failedCount: 0
+        },
+        { versionName: '1.2.0', status: 'failed', error: 'Linear is down' }
+      ])
+
+      const summary = readSummary()
+      expect(summary).toContain(
+        'Linked 1 release(s); 1 were already completed.'
+      )
+      expect(summary).toContain(
+        '<tr><td>1.1.0</td><td>✅ Success</td><td>4</td><td>3</td><td>0</td></tr>'
+      )
+      expect(summary).toContain(
+        '<tr><td>1.2.0</td><td>❌ Failed: Linear is down</td><td>-</td><td>-</td><td>-</td></tr>'
+      )
+    })
+  })
+})
@@ -0,0 +1,109 @@
+/**
+ * Unit tests for unlinking a release, src/unlink.ts
+ */
+import { jest } from '@jest/globals'
+import * as core from '../__fixtures__/core.js'
+import { createLinearClient } from '../__fixtures__/linear_client.js'
+
+jest.unstable_mockModule('@actions/core', () => core)
+
+const { findPreviousReleaseLabel } = await import('../src/unlink.js')
+
+const group = { id: 'group-1', name: 'repo releases' }
+
+/**
+ * Returns a Linear client for a label group with the given labels, in the order they
+ * were created.
+ */
+function createLabelGroup(labelNames: string[]) {
+  const { linearClient } = createLinearClient((query) => {
+    if (query.includes('query GetLabelGroupChildren')) {
+      return {
+        issueLabel: {
+          children: {
+            pageInfo: { hasNextPage: false },
+            nodes: labelNames.map((name, index) => ({
+              id: `label-${name}`,
+              name,
+              createdAt: new Date(Date.UTC(2026, 0, index + 1)).toISOString()
+            }))
+          }
+        }
+      }
+    }
+    throw new Error(`Unexpected request: ${query}`)
+  })
+
+  return linearClient
+}
+
+describe('unlink.ts', () => {
+  describe('findPreviousReleaseLabel', () => {
+    it('Picks the highest version below the unlinked one', async () => {
+      // 1.2.9 was created after 1.2.10, e.g. by a backfill
+      const linearClient = createLabelGroup([
+        '1.2.10 (repo)',
+        '1.2.9 (repo)',
+        '1.3.0 (repo)',
+        '1.3.1 (repo)',
+        'not a release (repo)'
+      ])
+
+      const previous = await findPreviousReleaseLabel(
+        { id: 'label-1.3.0 (repo)', name: '1.3.0 (repo)', parent: group },
+        '1.3.0',
+        'repo',
+        '{version} ({repo})',
+        '',
+        linearClient
+      )
+
+      expect(previous).toEqual({
+        label: {
+          id: 'label-1.2.10 (repo)',
+          name: '1.2.10 (repo)',
+          parent: group
+        },
+        versionName: '1.2.10'
+      })
+    })
+
+    it('Reads the versions of a monorepo component', async () => {
+      const linearClient = createLabelGroup([
+        'api-v1.10.0 [repo/api]',
+        'api-v1.9.0 [repo/api]',
+        'api-v1.11.0 [repo/api]'
+      ])
+
+      const previous = await findPreviousReleaseLabel(
+        {
+          id: 'label-api-v1.11.0 [repo/api]',
+          name: 'api-v1.11.0 [repo/api]',
+          parent: group
+        },
+        'api-v1.11.0',
+        'repo/api',
+        '{version} [{repo}]',
+        'api-',
+        linearClient
+      )
+
+      expect(previous?.versionName).toBe('api-v1.10.0')
+    })
+
+    it('Finds nothing before the first release', async () => {
+      const linearClient = createLabelGroup(['1.0.0 (repo)', '1.1.0 (repo)'])
+
+      await expect(
+        findPreviousReleaseLabel(
+          { id: 'label-1.0.0 (repo)', name: '1.0.0 (repo)', parent: group },
+          '1.0.0',
+          'repo',
+          '{version} ({repo})',
+          '',
+          linearClient
+        )
+      ).resolves.toBeNull()
+    })
+  })
+})
@@ -5,11 +5,11 @@ import nodeResolve from '@rollup/plugin-node-resolve'
 import typescript from '@rollup/plugin-typescript'
 import json from '@rollup/plugin-json'
 
-const config = {
-  input: 'src/index.ts',
+const config = ['index', 'cli'].map((entrypoint) => ({
+  input: `src/${entrypoint}.ts`,
   output: {
     esModule: true,
-    file: 'dist/index.js',
+    file: `dist/${entrypoint}.js`,
     format: 'es',
     sourcemap: true
   },
@@ -19,6 +19,6 @@ const config = {
     commonjs(),
     json()
   ]
-}
+}))
 
 export default config
@@ -1,111 +1,1293 @@
 import { createLinearAttachment } from './link_attach.js'
-import { ensureReleaseLabel, addLabelToIssue } from './label_attach.js'
-import { getLinearIssueFromPrUrl } from './linear_issue.js'
-import { getPullRequestUrlsForRelease } from './github.js'
-import { config, ReleaseMode } from './config.js'
+import { createReleaseComment } from './issue_comment.js'
+import { archiveStaleReleaseLabels } from './label_retention.js'
+import { renderTemplate } from './template.js'
+import {
+  ensureReleaseLabel,
+  addLabelToIssue,
+  findReleaseLabels,
+  findOtherLabelInGroup,
+  getLabelNamePattern,
+  getLabelRepoName,
+  getReleaseLabelGroupPatterns,
+  resolveTeamsByKey,
+  archiveReleaseLabel,
+  ReleaseLabelOptions
+} from './label_attach.js'
+import {
+  findReleaseAttachments,
+  deleteReleaseAttachment,
+  removeLabelFromIssue,
+  findPreviousReleaseLabel
+} from './unlink.js'
+import {
+  getLinearIssuesFromPrUrls,
+  getLinearIssuesByLabel,
+  listTeamKeys
+} from './linear_issue.js'
+import { findLinearIssuesByPullRequestIdentifiers } from './issue_fallback.js'
+import { getIssueFilterSkipReason, IssueFilter } from './issue_filter.js'
+import { getParentIssue, getUnreleasedChildren } from './parent_issue.js'
+import {
+  buildReleaseProjectUpdate,
+  createReleaseProjectUpdate
+} from './project_update.js'
+import {
+  resolveTargetStates,
+  getStateTransitionSkipReason,
+  moveIssueToState
+} from './state_transition.js'
+import {
+  getPullRequestUrlsForRelease,
+  updateReleaseNotes,
+  upsertPullRequestComment,
+  addLabelToPullRequest,
+  listReleasesForBackfill
+} from './github.js'
+import { readBackfillState, markReleaseCompleted } from './backfill_state.js'
+import { buildReleaseNotesSection } from './release_notes.js'
+import { setReleaseOutputs, setBackfillOutputs } from './outputs.js'
+import { getPlannedMutations, resetPlannedMutations } from './dry_run.js'
+import {
+  writeReleaseSummary,
+  writeUnlinkSummary,
+  writeBackfillSummary,
+  BackfillReport,
+  FailureReport,
+  PullRequestReport,
+  SkippedIssueReport,
+  StepStatus
+} from './summary.js'
+import { AppConfig, LabelPolicy, ReleaseMode } from './config.js'
 import * as core from '@actions/core'
-import { LinearIssue, LinearLabel } from './linear.js'
-
-const {
-  versionName,
-  releaseMode,
-  githubRepo,
-  githubOrg,
-  githubToken,
-  linearApiKey,
-  linearApiUrl
-} = config
-
-const doLink =
-  releaseMode === ReleaseMode.Link || releaseMode === ReleaseMode.Both
-const doLabel =
-  releaseMode === ReleaseMode.Label || releaseMode === ReleaseMode.Both
+import {
+  LinearIssue,
+  LinearLabel,
+  LinearProject,
+  LinearWorkflowState
+} from './linear.js'
+import { LinearClient } from './linear_client.js'
+import { forEachConcurrently } from './concurrency.js'
+
+/**
+ * Number of Linear issues updated at a time. Each update sends a few requests, so a
+ * release with hundreds of issues would otherwise run into Linear's rate limits.
+ */
+const issueUpdateConcurrency = 5
+
+/**
+ * The settings of a run and what is derived from them once, passed to every step of
+ * the run. Two pieces of state are still shared by the process: the mutations a dry
+ * run plans (`dry_run.ts`), reset when a release starts, and the buffer of
+ * `core.summary`, emptied when the summary of a release is written. Runs in the same
+ * process must therefore not overlap.
+ */
+interface ReleaseContext {
+  config: AppConfig
+  linearClient: LinearClient
+  /** The repository name used in label names, including the monorepo component. */
+  labelRepoName: string
+  /** The URL of the repository's releases, ending in a slash. */
+  repoReleasesUrl: string
+  labelOptions: ReleaseLabelOptions
+  issueFilter: IssueFilter
+  doLink: boolean
+  doLabel: boolean
+}
 
 /**
  * Main function to coordinate finding issues and attaching release links.
+ *
+ * @param appConfig - The settings of the run.
  */
-export async function processRelease(): Promise<void> {
-  const prUrls = await getPullRequestUrlsForRelease(
-    versionName,
-    githubToken,
-    githubOrg,
-    githubRepo
-  )
+export async function processRelease(appConfig: AppConfig): Promise<void> {
+  const context = createReleaseContext(appConfig)
+  const { config } = context
+
+  if (config.dryRun) {
+    core.info(
+      'Dry-run mode enabled: Linear issues and labels will not be modified.'
+    )
+  }
+
+  // Unlinking always targets a single release, so it is never a backfill
+  const backfill =
+    config.releaseMode !== ReleaseMode.Unlink &&
+    !!(config.backfillFromTag || config.backfillSince)
+  if (!config.versionName && !backfill) {
+    throw new Error(
+      config.releaseMode === ReleaseMode.Unlink
+        ? "Input 'version-name' is required when 'release-mode' is 'unlink'."
+        : "Input 'version-name' is required unless 'backfill-from-tag' or 'backfill-since' is set."
+    )
+  }
+  if (config.versionName && backfill) {
+    throw new Error(
+      "Input 'version-name' cannot be combined with 'backfill-from-tag' or 'backfill-since': a backfill links every release in its range. Leave 'version-name' empty to backfill."
+    )
+  }
+
+  if (config.releaseMode === ReleaseMode.Unlink) {
+    await unlinkRelease(context, config.versionName)
+    return
+  }
+
+  if (backfill) {
+    await backfillReleases(context)
+    return
+  }
+
+  await linkRelease(context, config.versionName, config.previousTag)
+}
+
+/**
+ * Links the Linear issues of a single release: finds the release's pull requests,
+ * their issues, and applies the attachment, label, comment and state updates.
+ *
+ * @param context - The settings of the run.
+ * @param versionName - The tag of the release (e.g., "1.2.3").
+ * @param previousTagOverride - An explicit previous release tag; empty to detect it.
+ * @returns The number of pull requests and Linear issues of the release and how many
+ * of the issues failed to update.
+ */
+async function linkRelease(
+  context: ReleaseContext,
+  versionName: string,
+  previousTagOverride = ''
+): Promise<ReleaseLinkResult> {
+  const {
+    config,
+    linearClient,
+    labelRepoName,
+    labelOptions,
+    issueFilter,
+    doLabel
+  } = context
+  resetPlannedMutations()
+  const { prUrls, prerelease, releaseDate, previousTag, previousTagStrategy } =
+    await getPullRequestUrlsForRelease(
+      versionName,
+      config.githubToken,
+      config.githubOrg,
+      config.githubRepo,
+      {
+        previousTag: previousTagOverride,
+        strategy: config.previousReleaseStrategy,
+        tagPrefix: config.tagPrefix,
+        paths: config.paths
+      }
+    )
 
   if (prUrls.length === 0) {
     core.info(
       `No PRs found for release ${versionName} or could not fetch them. No Linear issues to update.`
     )
-    return
+    setReleaseOutputs({
+      previousTag,
+      previousTagStrategy,
+      prUrls,
+      linearIssues: [],
+      updatedIssues: [],
+      failedIssues: [],
+      movedIssues: [],
+      commentedIssues: [],
+      skippedIssues: [],
+      archivedLabels: [],
+      releasedParents: [],
+      updatedProjects: [],
+      plannedMutations: []
+    })
+    await writeReleaseSummary(versionName, [], [])
+    return { prCount: 0, issueCount: 0, failedCount: 0 }
+  }
+
+  const updatedIssues = new Set<string>()
+  const failedIssues = new Set<string>()
+  const commentedIssues = new Set<string>()
+  const issueUpdateResults = new Map<string, IssueUpdateResult>()
+  const failures: FailureReport[] = []
+
+  const prIssues = await getLinearIssuesFromPrUrls(
+    prUrls,
+    config.linearBatchSize,
+    linearClient
+  )
+
+  // The identifier fallback needs one lookup per PR, so only PRs without an
+  // attachment-linked issue go through it
+  if (config.identifierFallback) {
+    let teamKeys: string[] | undefined
+    for (const [prUrl, linearIssues] of prIssues) {
+      if (linearIssues.length === 0) {
+        teamKeys ??= await getIdentifierTeamKeys(context)
+        prIssues.set(
+          prUrl,
+          await findLinearIssuesFromIdentifiers(context, prUrl, teamKeys)
+        )
+      }
+    }
   }
 
-  const updatedIssues = new Set()
-  interface IssuePullRequestLink {
-    linearIssue: LinearIssue
-    prUrl: string
+  // A PR can close several issues and an issue can be linked from several PRs, so
+  // issues are keyed by ID to update each of them exactly once
+  const foundLinearIssues = new Map<string, IssuePullRequestLinks>()
+  for (const [prUrl, linearIssues] of prIssues) {
+    for (const linearIssue of linearIssues) {
+      const link = foundLinearIssues.get(linearIssue.id)
+      if (link) {
+        link.prUrls.push(prUrl)
+      } else {
+        foundLinearIssues.set(linearIssue.id, { linearIssue, prUrls: [prUrl] })
+      }
+    }
   }
 
-  const foundLinearIssues: IssuePullRequestLink[] = []
-  await Promise.all(
-    prUrls.map(async (prUrl) => {
-      const linearIssue = await getLinearIssueFromPrUrl(
-        prUrl,
-        linearApiUrl,
-        linearApiKey
+  const linkedIssues = [...foundLinearIssues.values()].map(
+    ({ linearIssue }) => linearIssue.identifier
+  )
+
+  // Filtered out issues still show up in the summary, with the reason
+  const skippedIssues: SkippedIssueReport[] = []
+  for (const { linearIssue } of foundLinearIssues.values()) {
+    const skipReason = getIssueFilterSkipReason(linearIssue, issueFilter)
+    if (skipReason) {
+      core.info(
+        `Skipping Linear issue ${linearIssue.identifier}: ${skipReason}.`
       )
+      skippedIssues.push({ identifier: linearIssue.identifier, skipReason })
+      foundLinearIssues.delete(linearIssue.id)
+    }
+  }
 
-      if (linearIssue) {
-        foundLinearIssues.push({ linearIssue: linearIssue, prUrl: prUrl })
+  let releaseLabels: LinearLabel[] = []
+  if (foundLinearIssues.size > 0 && doLabel) {
+    releaseLabels = await ensureReleaseLabels(context, versionName, prerelease)
+  }
+
+  await forEachConcurrently(
+    [...foundLinearIssues.values()],
+    issueUpdateConcurrency,
+    async ({ linearIssue, prUrls }: IssuePullRequestLinks) => {
+      const result = await updateLinearIssueWithRelease(
+        context,
+        versionName,
+        linearIssue,
+        prUrls,
+        releaseLabels,
+        prerelease,
+        releaseDate
+      )
+      issueUpdateResults.set(linearIssue.id, result)
+      // A comment alone does not link the issue to the release
+      if (result.attachment === 'success' || result.label === 'success') {
+        updatedIssues.add(linearIssue.identifier)
       }
-    })
+      if (result.comment === 'success') {
+        commentedIssues.add(linearIssue.identifier)
+      }
+      if (result.errors.length > 0) {
+        failedIssues.add(linearIssue.identifier)
+        failures.push(
+          ...result.errors.map((error) => ({
+            subject: `${linearIssue.identifier} (${prUrls.join(', ')})`,
+            error
+          }))
+        )
+      }
+    }
+  )
+
+  if (updatedIssues.size > 0) {
+    core.info(
+      `Successfully updated ${updatedIssues.size} Linear issue(s) for release ${versionName}.`
+    )
+  } else {
+    core.info(`No Linear issues were updated for release ${versionName}.`)
+  }
+
+  const uniqueIssues = [...foundLinearIssues.values()].map(
+    ({ linearIssue }) => linearIssue
+  )
+
+  let movedIssues: string[] = []
+  if (config.targetStateName && uniqueIssues.length > 0) {
+    const transition = await moveIssuesToTargetState(
+      context,
+      uniqueIssues,
+      config.targetStateName
+    )
+    movedIssues = transition.movedIssues
+    failures.push(...transition.failures)
+  }
+
+  const releasedIssues = [...foundLinearIssues.values()].filter(
+    ({ linearIssue }) => !failedIssues.has(linearIssue.identifier)
   )
 
-  let releaseLabel: LinearLabel | undefined
-  if (foundLinearIssues.length > 0 && doLabel) {
-    releaseLabel = await ensureReleaseLabel(
+  let releasedParents: LinearIssue[] = []
+  if (config.propagateToParents) {
+    const propagation = await propagateReleaseToParents(
+      context,
       versionName,
-      githubRepo,
-      linearApiUrl,
-      linearApiKey
+      releasedIssues,
+      releaseLabels,
+      prerelease,
+      releaseDate
     )
+    releasedParents = propagation.releasedParents
+    movedIssues.push(...propagation.movedParents)
+    failures.push(...propagation.failures)
   }
 
-  await Promise.all(
-    foundLinearIssues.map(
-      async ({ linearIssue, prUrl }: IssuePullRequestLink) => {
-        const success = await updateLinearIssueWithRelease(
-          linearIssue,
-          prUrl,
-          releaseLabel
+  let updatedProjects: string[] = []
+  if (config.projectUpdates) {
+    const projectUpdates = await postReleaseProjectUpdates(
+      context,
+      versionName,
+      releaseDate,
+      [
+        ...releasedIssues.map(({ linearIssue }) => linearIssue),
+        ...releasedParents
+      ]
+    )
+    updatedProjects = projectUpdates.updatedProjects
+    failures.push(...projectUpdates.failures)
+  }
+
+  if (config.releaseNotes) {
+    try {
+      await updateReleaseNotes(
+        versionName,
+        buildReleaseNotesSection(
+          uniqueIssues,
+          prUrls.filter((prUrl) => (prIssues.get(prUrl) || []).length === 0),
+          prUrls.filter((prUrl) => {
+            const linearIssues = prIssues.get(prUrl) || []
+            return (
+              linearIssues.length > 0 &&
+              linearIssues.every(
+                (linearIssue) => !foundLinearIssues.has(linearIssue.id)
+              )
+            )
+          }),
+          config.releaseNotesGroupBy,
+          // The release labels of every version are left out, also when this run
+          // does not label
+          getReleaseLabelGroupPatterns(labelRepoName, labelOptions)
+        ),
+        config.githubToken,
+        config.githubOrg,
+        config.githubRepo,
+        config.dryRun
+      )
+    } catch (error) {
+      // The Linear updates are done at this point, so only report the failure
+      core.info(`Failed to update the release notes of ${versionName}.`)
+      core.info(String(error))
+      failures.push({ subject: 'Release notes', error: String(error) })
+    }
+  }
+
+  const archivedLabels: string[] = []
+  if (config.labelRetentionCount > 0 || config.labelRetentionDays > 0) {
+    for (const parentId of new Set(
+      releaseLabels.flatMap((label) => (label.parent ? [label.parent.id] : []))
+    )) {
+      // A group that a dry run would create has no labels to archive yet
+      if (parentId.startsWith('dry-run:')) {
+        continue
+      }
+
+      try {
+        const retention = await archiveStaleReleaseLabels(
+          parentId,
+          releaseLabels.map((label) => label.id),
+          {
+            keepCount: config.labelRetentionCount,
+            maxAgeDays: config.labelRetentionDays,
+            includeOpenIssues: config.archiveLabelsOnOpenIssues,
+            namePattern: getLabelNamePattern(
+              config.labelNameTemplate,
+              labelRepoName
+            ),
+            tagPrefix: config.tagPrefix
+          },
+          linearClient,
+          config.dryRun
         )
-        if (success) {
-          updatedIssues.add(linearIssue.id)
+        archivedLabels.push(...retention.archivedLabels)
+        failures.push(...retention.failures)
+      } catch (error) {
+        // The Linear updates are done at this point, so only report the failure
+        core.info(`Failed to apply the label retention to group ${parentId}.`)
+        core.info(String(error))
+        failures.push({
+          subject: `Label retention of group ${parentId}`,
+          error: String(error)
+        })
+      }
+    }
+  }
+
+  if (config.prComment || config.prLabelTemplate) {
+    failures.push(
+      ...(await updatePullRequests(
+        context,
+        versionName,
+        new Map(
+          [...prIssues].map(([prUrl, linearIssues]) => [
+            prUrl,
+            linearIssues.filter((linearIssue) =>
+              foundLinearIssues.has(linearIssue.id)
+            )
+          ])
+        ),
+        prerelease
+      ))
+    )
+  }
+
+  setReleaseOutputs({
+    previousTag,
+    previousTagStrategy,
+    prUrls,
+    linearIssues: linkedIssues,
+    updatedIssues: [...updatedIssues],
+    failedIssues: [...failedIssues],
+    movedIssues,
+    commentedIssues: [...commentedIssues],
+    skippedIssues: skippedIssues.map(({ identifier }) => identifier),
+    archivedLabels,
+    releasedParents: config.dryRun
+      ? []
+      : releasedParents.map((linearIssue) => linearIssue.identifier),
+    updatedProjects,
+    labelId: releaseLabels.map((label) => label.id).join(','),
+    plannedMutations: getPlannedMutations()
+  })
+
+  if (config.dryRun) {
+    core.info(
+      `Dry run complete: ${getPlannedMutations().length} Linear mutation(s) planned for release ${versionName}.`
+    )
+  }
+
+  await writeReleaseSummary(
+    versionName,
+    prUrls.flatMap((prUrl): PullRequestReport[] => {
+      const linearIssues = prIssues.get(prUrl) || []
+      if (linearIssues.length === 0) {
+        return [
+          { prUrl, attachment: 'skipped', label: 'skipped', comment: 'skipped' }
+        ]
+      }
+
+      return linearIssues.map((linearIssue) => {
+        const result = issueUpdateResults.get(linearIssue.id)
+        return {
+          prUrl,
+          issueIdentifier: linearIssue.identifier,
+          attachment: result?.attachment || 'skipped',
+          label: result?.label || 'skipped',
+          comment: result?.comment || 'skipped'
         }
+      })
+    }),
+    failures,
+    skippedIssues
+  )
+
+  return {
+    prCount: prUrls.length,
+    issueCount: uniqueIssues.length,
+    failedCount: failedIssues.size
+  }
+}
+
+interface ReleaseLinkResult {
+  prCount: number
+  issueCount: number
+  failedCount: number
+}
+
+function createReleaseContext(config: AppConfig): ReleaseContext {
+  return {
+    config,
+    linearClient: new LinearClient({
+      apiUrl: config.linearApiUrl,
+      apiKey: config.linearApiKey
+    }),
+    // Labels of a monorepo component get their own group, e.g. `repo/api releases`
+    labelRepoName: getLabelRepoName(config.githubRepo, config.tagPrefix),
+    repoReleasesUrl: `${config.githubServerUrl}/${config.githubOrg}/${config.githubRepo}/releases/`,
+    labelOptions: {
+      groupTemplate: config.labelGroupTemplate,
+      prereleaseGroupTemplate: config.prereleaseLabelGroupTemplate,
+      nameTemplate: config.labelNameTemplate,
+      color: config.labelColor
+    },
+    issueFilter: {
+      includeTeams: config.includeTeams,
+      excludeTeams: config.excludeTeams,
+      includeStateTypes: config.includeStateTypes,
+      excludeStateTypes: config.excludeStateTypes,
+      includeLabels: config.includeLabels,
+      excludeLabels: config.excludeLabels,
+      includeProjects: config.includeProjects,
+      excludeProjects: config.excludeProjects
+    },
+    doLink:
+      config.releaseMode === ReleaseMode.Link ||
+      config.releaseMode === ReleaseMode.Both,
+    doLabel:
+      config.releaseMode === ReleaseMode.Label ||
+      config.releaseMode === ReleaseMode.Both
+  }
+}
+
+function getReleaseUrl(context: ReleaseContext, versionName: string) {
+  return `${context.repoReleasesUrl}tag/${versionName}`
+}
+
+/**
+ * Links every published release from the configured starting point, oldest first.
+ *
+ * Progress is saved to the backfill state file after every release, and releases
+ * recorded there are skipped, so a backfill that stops (e.g., on a failure or when the
+ * job times out) resumes at the release it stopped at. Linking a release again is
+ * harmless: Linear keeps one attachment per URL and issue, labels and comments already
+ * present are not added twice. The backfill stops at the first release that fails,
+ * as the releases after it build on its labels.
+ */
+async function backfillReleases(context: ReleaseContext) {
+  const { config } = context
+  const releases = await listReleasesForBackfill(
+    config.githubToken,
+    config.githubOrg,
+    config.githubRepo,
+    {
+      fromTag: config.backfillFromTag,
+      since: config.backfillSince || undefined,
+      tagPrefix: config.tagPrefix
+    }
+  )
+  const state = readBackfillState(config.backfillStateFile)
+  const pending = releases.filter((tag) => !state.completed.includes(tag))
+
+  core.info(
+    `Backfilling ${pending.length} of ${releases.length} release(s); ${releases.length - pending.length} already completed according to ${config.backfillStateFile}.`
+  )
+
+  const reports: BackfillReport[] = releases
+    .filter((tag) => state.completed.includes(tag))
+    .map((versionName) => ({ versionName, status: 'skipped' }))
+
+  try {
+    for (const versionName of pending) {
+      core.startGroup(`Release ${versionName}`)
+      let result: ReleaseLinkResult
+      try {
+        result = await linkRelease(context, versionName)
+      } catch (error) {
+        reports.push({ versionName, status: 'failed', error: String(error) })
+        throw new Error(
+          `Backfill stopped at release ${versionName}: ${String(error)} Re-run to resume from this release.`
+        )
+      } finally {
+        core.endGroup()
+      }
+
+      core.info(
+        `Release ${versionName}: ${result.prCount} PR(s), ${result.issueCount} Linear issue(s), ${result.failedCount} failed.`
+      )
+      if (result.failedCount > 0) {
+        reports.push({ versionName, status: 'failed', ...result })
+        throw new Error(
+          `Backfill stopped at release ${versionName}: ${result.failedCount} Linear issue(s) failed to update. Re-run to resume from this release.`
+        )
       }
+
+      reports.push({ versionName, status: 'success', ...result })
+      // A dry run changes nothing, so it must not count as progress
+      if (!config.dryRun) {
+        markReleaseCompleted(config.backfillStateFile, state, versionName)
+      }
+    }
+  } finally {
+    setBackfillOutputs(
+      reports
+        .filter((report) => report.status === 'success')
+        .map((report) => report.versionName)
+    )
+    await writeBackfillSummary(reports)
+  }
+}
+
+/**
+ * Removes a release from Linear, e.g. after it was unpublished or rolled back.
+ *
+ * Every issue with an attachment or label of the release loses them. The GitHub
+ * release is not needed, so this also works after it was deleted. Failures are
+ * logged without interrupting the other issues.
+ */
+async function unlinkRelease(context: ReleaseContext, versionName: string) {
+  const { config, linearClient, labelRepoName, repoReleasesUrl, labelOptions } =
+    context
+  resetPlannedMutations()
+  core.info(`Unlinking release ${versionName} from Linear...`)
+
+  const failures: FailureReport[] = []
+  const unlinkedIssues = new Set<string>()
+  const failedIssues = new Set<string>()
+  const linearIssues = new Map<string, LinearIssue>()
+
+  const attachments = await findReleaseAttachments(
+    versionName,
+    getReleaseUrl(context, versionName),
+    repoReleasesUrl,
+    linearClient
+  )
+  for (const attachment of attachments) {
+    const { identifier } = attachment.linearIssue
+    linearIssues.set(attachment.linearIssue.id, attachment.linearIssue)
+    try {
+      await deleteReleaseAttachment(attachment, linearClient, config.dryRun)
+      unlinkedIssues.add(identifier)
+    } catch (error) {
+      // Process won't be interrupted to let other issues to be updated
+      core.info(String(error))
+      failedIssues.add(identifier)
+      failures.push({
+        subject: `${identifier} (attachment)`,
+        error: String(error)
+      })
+    }
+  }
+
+  const archivedLabels: string[] = []
+  const releaseLabels: LinearLabel[] = []
+  for (const team of await getLabelTeams(context)) {
+    releaseLabels.push(
+      ...(await findReleaseLabels(versionName, labelRepoName, linearClient, {
+        ...labelOptions,
+        team
+      }))
     )
+  }
+
+  for (const releaseLabel of releaseLabels) {
+    const previous = config.restorePreviousLabel
+      ? await findPreviousReleaseLabel(
+          releaseLabel,
+          versionName,
+          labelRepoName,
+          config.labelNameTemplate,
+          config.tagPrefix,
+          linearClient
+        )
+      : null
+    // Only the issues shipped in the previous release had its label before
+    const previousIssueIds = previous
+      ? await findReleaseIssueIds(context, previous.versionName)
+      : new Set<string>()
+
+    let labelFailed = false
+    for (const linearIssue of await getLinearIssuesByLabel(
+      releaseLabel.id,
+      linearClient
+    )) {
+      linearIssues.set(linearIssue.id, linearIssue)
+      try {
+        await removeLabelFromIssue(
+          linearIssue,
+          releaseLabel,
+          previous && previousIssueIds.has(linearIssue.id)
+            ? previous.label
+            : null,
+          linearClient,
+          config.dryRun
+        )
+        unlinkedIssues.add(linearIssue.identifier)
+      } catch (error) {
+        // Process won't be interrupted to let other issues to be updated
+        core.info(String(error))
+        labelFailed = true
+        failedIssues.add(linearIssue.identifier)
+        failures.push({
+          subject: `${linearIssue.identifier} (label)`,
+          error: String(error)
+        })
+      }
+    }
+
+    // A label that could not be removed everywhere is still in use
+    if (config.archiveEmptyLabel && !labelFailed) {
+      try {
+        await archiveReleaseLabel(releaseLabel, linearClient, config.dryRun)
+        archivedLabels.push(releaseLabel.name)
+      } catch (error) {
+        core.info(String(error))
+        failures.push({
+          subject: `${releaseLabel.name} (archive)`,
+          error: String(error)
+        })
+      }
+    }
+  }
+
+  core.info(
+    `Removed release ${versionName} from ${unlinkedIssues.size} Linear issue(s): ${[...unlinkedIssues].join(', ') || 'none'}`
   )
 
-  if (updatedIssues.size > 0) {
+  setReleaseOutputs({
+    previousTagStrategy: 'none',
+    prUrls: [],
+    linearIssues: [...linearIssues.values()].map(
+      (linearIssue) => linearIssue.identifier
+    ),
+    updatedIssues: [...unlinkedIssues],
+    failedIssues: [...failedIssues],
+    movedIssues: [],
+    commentedIssues: [],
+    skippedIssues: [],
+    archivedLabels,
+    releasedParents: [],
+    updatedProjects: [],
+    plannedMutations: getPlannedMutations()
+  })
+
+  await writeUnlinkSummary(versionName, [...unlinkedIssues], failures)
+}
+
+/**
+ * Finds the IDs of the Linear issues shipped in a release: those with an attachment of
+ * the release, and those linked to its pull requests, which also covers a release that
+ * was only labeled. The pull requests are skipped if they cannot be looked up, e.g.
+ * because the GitHub release was deleted.
+ */
+async function findReleaseIssueIds(
+  context: ReleaseContext,
+  versionName: string
+): Promise<Set<string>> {
+  const { config, linearClient, repoReleasesUrl, issueFilter } = context
+  const issueIds = new Set<string>()
+
+  for (const attachment of await findReleaseAttachments(
+    versionName,
+    getReleaseUrl(context, versionName),
+    repoReleasesUrl,
+    linearClient
+  )) {
+    issueIds.add(attachment.linearIssue.id)
+  }
+
+  try {
+    const { prUrls } = await getPullRequestUrlsForRelease(
+      versionName,
+      config.githubToken,
+      config.githubOrg,
+      config.githubRepo,
+      {
+        strategy: config.previousReleaseStrategy,
+        tagPrefix: config.tagPrefix,
+        paths: config.paths
+      }
+    )
+    const prIssues = await getLinearIssuesFromPrUrls(
+      prUrls,
+      config.linearBatchSize,
+      linearClient
+    )
+    for (const linearIssues of prIssues.values()) {
+      for (const linearIssue of linearIssues) {
+        // Issues left alone by the filters never got the release label
+        if (!getIssueFilterSkipReason(linearIssue, issueFilter)) {
+          issueIds.add(linearIssue.id)
+        }
+      }
+    }
+  } catch (error) {
     core.info(
-      `Successfully updated ${updatedIssues.size} Linear issue(s) for release ${versionName}.`
+      `Could not look up the pull requests of release ${versionName}; using its attachments only.`
     )
-  } else {
-    core.info(`No Linear issues were updated for release ${versionName}.`)
+    core.info(String(error))
   }
+
+  return issueIds
 }
 
-async function updateLinearIssueWithRelease(
-  linearIssue: LinearIssue,
+/**
+ * Ensures the release label exists in every configured team, or once for the whole
+ * workspace if no teams are configured.
+ */
+async function ensureReleaseLabels(
+  context: ReleaseContext,
+  versionName: string,
+  prerelease: boolean
+) {
+  const { config, linearClient, labelRepoName, labelOptions } = context
+  const releaseLabels: LinearLabel[] = []
+  for (const team of await getLabelTeams(context)) {
+    releaseLabels.push(
+      await ensureReleaseLabel(
+        versionName,
+        labelRepoName,
+        linearClient,
+        config.dryRun,
+        prerelease,
+        { ...labelOptions, team }
+      )
+    )
+  }
+
+  return releaseLabels
+}
+
+async function getLabelTeams(context: ReleaseContext) {
+  const { config, linearClient } = context
+  return config.labelTeamKeys.length > 0
+    ? await resolveTeamsByKey(config.labelTeamKeys, linearClient)
+    : [undefined]
+}
+
+/**
+ * Returns the team keys the identifier fallback accepts: the configured ones, or those
+ * of every team in the workspace.
+ */
+async function getIdentifierTeamKeys(context: ReleaseContext) {
+  const { config, linearClient } = context
+  return config.identifierTeamKeys.length > 0
+    ? config.identifierTeamKeys
+    : await listTeamKeys(linearClient)
+}
+
+async function findLinearIssuesFromIdentifiers(
+  context: ReleaseContext,
   prUrl: string,
-  releaseLabel: LinearLabel | undefined
+  teamKeys: string[]
+): Promise<LinearIssue[]> {
+  const { config, linearClient } = context
+  try {
+    return await findLinearIssuesByPullRequestIdentifiers(
+      prUrl,
+      teamKeys,
+      config.githubToken,
+      linearClient
+    )
+  } catch (error) {
+    // A failing fallback lookup should not prevent the other PRs from being processed
+    core.info(`Identifier fallback failed for PR: ${prUrl}`)
+    core.info(String(error))
+    return []
+  }
+}
+
+/**
+ * Comments on and labels the pull requests of the release on GitHub.
+ *
+ * The pull requests are updated one after another to stay clear of GitHub's
+ * secondary rate limits. Failures are logged without interrupting the other pull
+ * requests.
+ *
+ * @param context - The settings of the run.
+ * @param prIssues - Every pull request URL of the release with its Linear issues.
+ * @param prerelease - Whether the release is a prerelease.
+ * @returns The failed updates.
+ */
+async function updatePullRequests(
+  context: ReleaseContext,
+  versionName: string,
+  prIssues: Map<string, LinearIssue[]>,
+  prerelease: boolean
+): Promise<FailureReport[]> {
+  const { config } = context
+  const failures: FailureReport[] = []
+  const prLabel = renderTemplate(config.prLabelTemplate, {
+    version: versionName
+  })
+
+  for (const [prUrl, linearIssues] of prIssues) {
+    if (config.prComment) {
+      try {
+        await upsertPullRequestComment(
+          prUrl,
+          buildPullRequestComment(
+            context,
+            versionName,
+            linearIssues,
+            prerelease
+          ),
+          config.githubToken,
+          config.dryRun
+        )
+      } catch (error) {
+        // Process won't be interrupted to let other pull requests to be updated
+        core.info(`Failed to comment on PR ${prUrl}.`)
+        core.info(String(error))
+        failures.push({ subject: `${prUrl} (comment)`, error: String(error) })
+      }
+    }
+
+    if (prLabel) {
+      try {
+        await addLabelToPullRequest(
+          prUrl,
+          prLabel,
+          config.githubToken,
+          config.dryRun
+        )
+      } catch (error) {
+        // Process won't be interrupted to let other pull requests to be updated
+        core.info(`Failed to label PR ${prUrl}.`)
+        core.info(String(error))
+        failures.push({ subject: `${prUrl} (label)`, error: String(error) })
+      }
+    }
+  }
+
+  return failures
+}
+
+function buildPullRequestComment(
+  context: ReleaseContext,
+  versionName: string,
+  linearIssues: LinearIssue[],
+  prerelease: boolean
 ) {
-  let anySuccess = false
+  const lines = [
+    `${prerelease ? 'Pre-released' : 'Released'} in [${versionName}](${getReleaseUrl(context, versionName)}).`
+  ]
+  if (linearIssues.length > 0) {
+    const issueLinks = linearIssues.map((linearIssue) =>
+      linearIssue.url
+        ? `[${linearIssue.identifier}](${linearIssue.url})`
+        : linearIssue.identifier
+    )
+    lines.push('', `Linear: ${issueLinks.join(', ')}`)
+  }
+
+  return lines.join('\n')
+}
+
+/**
+ * Moves the released Linear issues to the configured target workflow state.
+ *
+ * The target state is resolved by name for every team the issues belong to. Issues
+ * whose team has no such state, or that are already canceled or further along in the
+ * workflow, are left alone. Failures are logged without interrupting the other issues.
+ *
+ * @returns The identifiers of the issues that were moved and the failed moves.
+ */
+async function moveIssuesToTargetState(
+  context: ReleaseContext,
+  linearIssues: LinearIssue[],
+  stateName: string
+): Promise<{ movedIssues: string[]; failures: FailureReport[] }> {
+  const { config, linearClient } = context
+  const teamIds = [
+    ...new Set(
+      linearIssues
+        .map((linearIssue) => linearIssue.team?.id)
+        .filter((teamId): teamId is string => !!teamId)
+    )
+  ]
+  const movedIssues: string[] = []
+  const skippedIssues: string[] = []
+  const failures: FailureReport[] = []
+
+  let targetStates: Map<string, LinearWorkflowState>
+  try {
+    targetStates = await resolveTargetStates(teamIds, stateName, linearClient)
+  } catch (error) {
+    // The issues were updated already, so only report that none of them moved
+    core.info(`Failed to resolve the workflow state '${stateName}'.`)
+    core.info(String(error))
+    failures.push({
+      subject: `Workflow state '${stateName}'`,
+      error: String(error)
+    })
+    return { movedIssues, failures }
+  }
+
+  await forEachConcurrently(
+    linearIssues,
+    issueUpdateConcurrency,
+    async (linearIssue) => {
+      const targetState = linearIssue.team
+        ? targetStates.get(linearIssue.team.id)
+        : undefined
+      if (!targetState) {
+        skippedIssues.push(
+          `${linearIssue.identifier} (team has no state '${stateName}')`
+        )
+        return
+      }
+
+      const skipReason = getStateTransitionSkipReason(linearIssue, targetState)
+      if (skipReason) {
+        skippedIssues.push(`${linearIssue.identifier} (${skipReason})`)
+        return
+      }
+
+      try {
+        await moveIssueToState(
+          linearIssue,
+          targetState,
+          linearClient,
+          config.dryRun
+        )
+        if (!config.dryRun) {
+          movedIssues.push(linearIssue.identifier)
+        }
+      } catch (error) {
+        // Process won't be interrupted to let other issues to be updated
+        skippedIssues.push(`${linearIssue.identifier} (${String(error)})`)
+        failures.push({
+          subject: `${linearIssue.identifier} (state)`,
+          error: String(error)
+        })
+      }
+    }
+  )
+
+  core.info(
+    `Moved ${movedIssues.length} Linear issue(s) to '${stateName}': ${movedIssues.join(', ') || 'none'}`
+  )
+  core.info(
+    `Left ${skippedIssues.length} Linear issue(s) alone: ${skippedIssues.join(', ') || 'none'}`
+  )
+
+  return { movedIssues, failures }
+}
+
+/**
+ * Releases the parents of the given issues once all of their sub-issues have shipped.
+ *
+ * A parent gets the same attachment, label and comment as its sub-issues, listing the
+ * pull requests of the sub-issues released by this run, and is moved to the parent
+ * target state if one is set. Parents that are linked to the release themselves were
+ * already updated, and parents the issue filters exclude are left alone. Failures are
+ * logged without interrupting the other parents.
+ */
+async function propagateReleaseToParents(
+  context: ReleaseContext,
+  versionName: string,
+  releasedIssues: IssuePullRequestLinks[],
+  releaseLabels: LinearLabel[],
+  prerelease: boolean,
+  releaseDate: string
+): Promise<{
+  releasedParents: LinearIssue[]
+  movedParents: string[]
+  failures: FailureReport[]
+}> {
+  const { config, linearClient, repoReleasesUrl, issueFilter } = context
+  const releasedIssueIds = new Set(
+    releasedIssues.map(({ linearIssue }) => linearIssue.id)
+  )
+  const releaseLabelGroupIds = releaseLabels.flatMap((label) =>
+    label.parent ? [label.parent.id] : []
+  )
+
+  // Sub-issues can share a parent, which then lists the PRs of all of them
+  const prUrlsByParentId = new Map<string, Set<string>>()
+  for (const { linearIssue, prUrls } of releasedIssues) {
+    const parentId = linearIssue.parent?.id
+    if (parentId && !releasedIssueIds.has(parentId)) {
+      const parentPrUrls = prUrlsByParentId.get(parentId) || new Set<string>()
+      prUrls.forEach((prUrl) => parentPrUrls.add(prUrl))
+      prUrlsByParentId.set(parentId, parentPrUrls)
+    }
+  }
+
+  const releasedParents: LinearIssue[] = []
+  const failures: FailureReport[] = []
+  for (const [parentId, prUrls] of prUrlsByParentId) {
+    try {
+      const parent = await getParentIssue(
+        parentId,
+        repoReleasesUrl,
+        linearClient
+      )
+      if (!parent) {
+        continue
+      }
+
+      const { linearIssue } = parent
+      const unreleasedChildren = getUnreleasedChildren(
+        parent,
+        releasedIssueIds,
+        releaseLabelGroupIds
+      )
+      if (unreleasedChildren.length > 0) {
+        core.info(
+          `Not releasing parent issue ${linearIssue.identifier}: sub-issue(s) ${unreleasedChildren.join(', ')} have not shipped yet.`
+        )
+        continue
+      }
+
+      const skipReason = getIssueFilterSkipReason(linearIssue, issueFilter)
+      if (skipReason) {
+        core.info(
+          `Skipping parent issue ${linearIssue.identifier}: ${skipReason}.`
+        )
+        continue
+      }
+
+      core.info(
+        `All sub-issues of ${linearIssue.identifier} have shipped; releasing the parent issue.`
+      )
+      const result = await updateLinearIssueWithRelease(
+        context,
+        versionName,
+        linearIssue,
+        [...prUrls],
+        releaseLabels,
+        prerelease,
+        releaseDate
+      )
+      if (result.errors.length > 0) {
+        failures.push(
+          ...result.errors.map((error) => ({
+            subject: `${linearIssue.identifier} (parent)`,
+            error
+          }))
+        )
+      } else {
+        releasedParents.push(linearIssue)
+      }
+    } catch (error) {
+      // Process won't be interrupted to let other issues to be updated
+      core.info(`Failed to release parent issue ${parentId}.`)
+      core.info(String(error))
+      failures.push({
+        subject: `Parent issue ${parentId}`,
+        error: String(error)
+      })
+    }
+  }
+
+  let movedParents: string[] = []
+  if (config.parentTargetStateName && releasedParents.length > 0) {
+    const transition = await moveIssuesToTargetState(
+      context,
+      releasedParents,
+      config.parentTargetStateName
+    )
+    movedParents = transition.movedIssues
+    failures.push(...transition.failures)
+  }
+
+  return { releasedParents, movedParents, failures }
+}
+
+/**
+ * Posts an update listing the issues shipped in the release to each of their Linear
+ * projects. Failures are logged without interrupting the other projects.
+ */
+async function postReleaseProjectUpdates(
+  context: ReleaseContext,
+  versionName: string,
+  releaseDate: string,
+  linearIssues: LinearIssue[]
+): Promise<{ updatedProjects: string[]; failures: FailureReport[] }> {
+  const { config, linearClient } = context
+  const issuesByProject = new Map<
+    string,
+    { project: LinearProject; linearIssues: LinearIssue[] }
+  >()
+  for (const linearIssue of linearIssues) {
+    if (!linearIssue.project) {
+      continue
+    }
+    const entry = issuesByProject.get(linearIssue.project.id) || {
+      project: linearIssue.project,
+      linearIssues: []
+    }
+    entry.linearIssues.push(linearIssue)
+    issuesByProject.set(linearIssue.project.id, entry)
+  }
+
+  const releaseTagUrl = getReleaseUrl(context, versionName)
+  const updatedProjects: string[] = []
+  const failures: FailureReport[] = []
+  for (const {
+    project,
+    linearIssues: projectIssues
+  } of issuesByProject.values()) {
+    try {
+      const posted = await createReleaseProjectUpdate(
+        project,
+        buildReleaseProjectUpdate(
+          versionName,
+          releaseTagUrl,
+          releaseDate,
+          projectIssues
+        ),
+        releaseTagUrl,
+        linearClient,
+        config.dryRun
+      )
+      if (posted && !config.dryRun) {
+        updatedProjects.push(project.name)
+      }
+    } catch (error) {
+      // Process won't be interrupted to let other projects to be updated
+      core.info(`Failed to post an update to project '${project.name}'.`)
+      core.info(String(error))
+      failures.push({
+        subject: `Project ${project.name}`,
+        error: String(error)
+      })
+    }
+  }
+
+  return { updatedProjects, failures }
+}
+
+interface IssuePullRequestLinks {
+  linearIssue: LinearIssue
+  prUrls: string[]
+}
+
+interface IssueUpdateResult {
+  attachment: StepStatus
+  label: StepStatus
+  comment: StepStatus
+  errors: string[]
+}
+
+async function updateLinearIssueWithRelease(
+  context: ReleaseContext,
+  versionName: string,
+  linearIssue: LinearIssue,
+  prUrls: string[],
+  releaseLabels: LinearLabel[],
+  prerelease: boolean,
+  releaseDate: string
+): Promise<IssueUpdateResult> {
+  const { config, linearClient, doLink } = context
+  const result: IssueUpdateResult = {
+    attachment: 'skipped',
+    label: 'skipped',
+    comment: 'skipped',
+    errors: []
+  }
+
   if (doLink) {
     try {
-      await attachReleaseLinkToIssue(linearIssue, prUrl)
-      anySuccess = true
+      await attachReleaseLinkToIssue(
+        context,
+        versionName,
+        linearIssue,
+        prUrls,
+        prerelease
+      )
+      result.attachment = config.dryRun ? 'planned' : 'success'
     } catch (error) {
       // Process won't be interrupted to let other issues to be updated
+      result.attachment = 'failed'
+      result.errors.push(`Attachment: ${String(error)}`)
       core.info(
         `Failed to create attachment for issue ${linearIssue.identifier}.`
       )
@@ -116,45 +1298,103 @@ async function updateLinearIssueWithRelease(
     core.info('Skipping link attachment (mode does not include link).')
   }
 
-  if (releaseLabel) {
+  // Team labels are only visible to issues of their team
+  const releaseLabel = releaseLabels.find(
+    (label) => !label.team || label.team.id === linearIssue.team?.id
+  )
+
+  const firstReleaseLabel =
+    releaseLabel && config.labelPolicy === LabelPolicy.KeepFirst
+      ? findOtherLabelInGroup(linearIssue, releaseLabel)
+      : undefined
+
+  if (firstReleaseLabel) {
+    core.info(
+      `Keeping release label '${firstReleaseLabel.name}' on issue ${linearIssue.identifier} (label policy keep-first).`
+    )
+  } else if (releaseLabel) {
     try {
       core.info(
         `Adding release label for version ${versionName} to Linear issue (${linearIssue.identifier})`
       )
 
-      await addLabelToIssue(
+      const labelAdded = await addLabelToIssue(
         linearIssue,
         releaseLabel,
-        linearApiUrl,
-        linearApiKey
+        linearClient,
+        config.dryRun,
+        config.labelPolicy === LabelPolicy.Replace
       )
-      anySuccess = true
+      if (labelAdded) {
+        result.label = config.dryRun ? 'planned' : 'success'
+      } else {
+        result.label = 'failed'
+        result.errors.push(`Label: Linear did not accept the label update.`)
+      }
     } catch (error) {
       // Process won't be interrupted to let other issues to be updated
+      result.label = 'failed'
+      result.errors.push(`Label: ${String(error)}`)
       core.info(String(error))
     }
+  } else if (releaseLabels.length > 0) {
+    core.info(
+      `Skipping label update for issue ${linearIssue.identifier}: its team has no release label.`
+    )
   } else {
     core.info('Skipping label update (mode does not include label).')
   }
 
-  return anySuccess
+  if (config.issueComment) {
+    const releaseTagUrl = getReleaseUrl(context, versionName)
+    try {
+      const body = renderTemplate(config.issueCommentTemplate, {
+        version: versionName,
+        release_url: releaseTagUrl,
+        pr_urls: prUrls.join(', '),
+        release_date: releaseDate.slice(0, 10)
+      })
+      const commented = await createReleaseComment(
+        linearIssue,
+        body,
+        releaseTagUrl,
+        linearClient,
+        config.dryRun
+      )
+      if (commented) {
+        result.comment = config.dryRun ? 'planned' : 'success'
+      }
+    } catch (error) {
+      // Process won't be interrupted to let other issues to be updated
+      result.comment = 'failed'
+      result.errors.push(`Comment: ${String(error)}`)
+      core.info(String(error))
+    }
+  }
+
+  return result
 }
 
 async function attachReleaseLinkToIssue(
+  context: ReleaseContext,
+  versionName: string,
   linearIssue: LinearIssue,
-  prUrl: string
+  prUrls: string[],
+  prerelease: boolean
 ) {
+  const { config, linearClient } = context
   core.info(
-    `Attaching release link ${versionName} to Linear issue (${linearIssue.identifier}) linked from PR: ${prUrl}`
+    `Attaching release link ${versionName} to Linear issue (${linearIssue.identifier}) linked from PR(s): ${prUrls.join(', ')}`
   )
 
-  const releaseTagUrl = `https://github.com/${githubOrg}/${githubRepo}/releases/tag/${versionName}`
+  const releaseTagUrl = getReleaseUrl(context, versionName)
 
   await createLinearAttachment(
     linearIssue.id,
     releaseTagUrl,
     versionName,
-    linearApiUrl,
-    linearApiKey
+    linearClient,
+    config.dryRun,
+    prerelease
   )
 }
@@ -0,0 +1,77 @@
+import * as fs from 'node:fs'
+import * as path from 'node:path'
+
+export const defaultBackfillStateFile = '.release-linker-backfill.json'
+
+/**
+ * The progress of a backfill, kept in a JSON file so that an interrupted backfill
+ * picks up where it stopped.
+ */
+export interface BackfillState {
+  /** The tags of the releases that were linked completely, in order. */
+  completed: string[]
+}
+
+/**
+ * Reads the progress of a backfill.
+ *
+ * @param stateFile - The path of the file relative to the workspace.
+ * @returns The progress, or an empty one if the file does not exist yet.
+ * @throws {Error} If the file is not a valid backfill state.
+ */
+export function readBackfillState(stateFile: string): BackfillState {
+  const absolutePath = resolveStateFile(stateFile)
+  if (!fs.existsSync(absolutePath)) {
+    return { completed: [] }
+  }
+
+  let state: unknown
+  try {
+    state = JSON.parse(fs.readFileSync(absolutePath, 'utf8'))
+  } catch (error) {
+    throw new Error(
+      `Backfill state file '${stateFile}' is not valid JSON: ${String(error)}`
+    )
+  }
+
+  const completed = (state as Partial<BackfillState> | null)?.completed
+  if (
+    !Array.isArray(completed) ||
+    !completed.every((tag) => typeof tag === 'string')
+  ) {
+    throw new Error(
+      `Backfill state file '${stateFile}' must hold a 'completed' list of release tags.`
+    )
+  }
+
+  return { completed }
+}
+
+/**
+ * Records a release as completely linked and saves the progress.
+ *
+ * The file is replaced atomically, so a backfill that is cancelled while saving
+ * never leaves a truncated file behind.
+ *
+ * @param stateFile - The path of the file relative to the workspace.
+ * @param state - The progress so far; updated in place.
+ * @param tag - The tag of the release that was linked.
+ */
+export function markReleaseCompleted(
+  stateFile: string,
+  state: BackfillState,
+  tag: string
+) {
+  if (!state.completed.includes(tag)) {
+    state.completed.push(tag)
+  }
+
+  const absolutePath = resolveStateFile(stateFile)
+  fs.mkdirSync(path.dirname(absolutePath), { recursive: true })
+  fs.writeFileSync(`${absolutePath}.tmp`, `${JSON.stringify(state, null, 2)}\n`)
+  fs.renameSync(`${absolutePath}.tmp`, absolutePath)
+}
+
+function resolveStateFile(stateFile: string) {
+  return path.resolve(process.env.GITHUB_WORKSPACE || process.cwd(), stateFile)
+}
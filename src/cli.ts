@@ -0,0 +1,10 @@
+/**
+ * The command-line entrypoint, for running the linker outside GitHub Actions, e.g. to
+ * re-run or debug a release locally. This file simply runs the command-line logic.
+ */
+import { runCli, useTerminalOutput } from './cli_main.js'
+
+/* istanbul ignore next */
+useTerminalOutput()
+/* istanbul ignore next */
+process.exitCode = await runCli(process.argv.slice(2))
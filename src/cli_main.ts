@@ -0,0 +1,197 @@
+/**
+ * The command-line logic, for running the linker outside GitHub Actions, e.g. to
+ * re-run or debug a release locally. See `cli.ts` for the entrypoint.
+ */
+import * as os from 'node:os'
+import { parseArgs } from 'node:util'
+import * as github from '@actions/github'
+import { processRelease } from './attach_release.js'
+import { ConfigSource, loadConfig, RepoInfo } from './config.js'
+import { configFileKeys } from './config_file.js'
+
+const usage = `Usage: node dist/cli.js --repo <owner/name> --tag <tag> --mode <mode> [options]
+
+Options:
+  --repo <owner/name>      The GitHub repository (default: $GITHUB_REPOSITORY).
+  --tag <tag>              The tag of the release (the 'version-name' input).
+  --mode <mode>            'link', 'label', 'both' or 'unlink' (the 'release-mode' input).
+  --linear-api-key <key>   The Linear API key (default: $LINEAR_API_KEY).
+  --github-token <token>   The GitHub token (default: $GITHUB_TOKEN).
+  --dry-run                Only report the Linear mutations that would be made.
+  --config-file <path>     Path of the YAML configuration file.
+  --set <name=value>       Sets any other input, e.g. --set target-state=Released.
+                           May be repeated.
+  -h, --help               Shows this help.
+
+Settings that are not given are read from the configuration file, as in the action.
+Set GITHUB_SERVER_URL and GITHUB_API_URL for GitHub Enterprise Server.`
+
+/**
+ * Reads the settings of a run from the command-line arguments.
+ *
+ * @param args - The arguments, without the node executable and script.
+ * @returns The source of the settings, or `null` if only the help was requested.
+ * @throws {Error} If an argument is unknown or invalid.
+ */
+export function parseCliArguments(args: string[]): ConfigSource | null {
+  const { values } = parseArgs({
+    args,
+    options: {
+      repo: { type: 'string', default: process.env.GITHUB_REPOSITORY || '' },
+      tag: { type: 'string', default: '' },
+      mode: { type: 'string', default: '' },
+      'linear-api-key': {
+        type: 'string',
+        default: process.env.LINEAR_API_KEY || ''
+      },
+      'github-token': {
+        type: 'string',
+        default: process.env.GITHUB_TOKEN || ''
+      },
+      'dry-run': { type: 'boolean', default: false },
+      'config-file': { type: 'string', default: '' },
+      set: { type: 'string', multiple: true, default: [] },
+      help: { type: 'boolean', short: 'h', default: false }
+    }
+  })
+
+  if (values.help) {
+    return null
+  }
+
+  const inputs: Record<string, string> = {
+    'version-name': values.tag,
+    'release-mode': values.mode,
+    'linear-api-key': values['linear-api-key'],
+    'github-token': values['github-token'],
+    'config-file': values['config-file'],
+    'dry-run': values['dry-run'] ? 'true' : ''
+  }
+
+  for (const setting of values.set) {
+    const separator = setting.indexOf('=')
+    const name = separator === -1 ? '' : setting.slice(0, separator).trim()
+    if (!configFileKeys.includes(name)) {
+      throw new Error(
+        `Invalid --set '${setting}': expected <name>=<value> with one of ${configFileKeys.join(', ')}.`
+      )
+    }
+    inputs[name] = setting.slice(separator + 1).trim()
+  }
+
+  for (const name of ['linear-api-key', 'github-token']) {
+    if (!inputs[name]) {
+      throw new Error(
+        `Missing --${name}; pass it or set $${name.replace(/-/g, '_').toUpperCase()}.`
+      )
+    }
+  }
+
+  return {
+    getInput: (name) => inputs[name] || '',
+    repo: parseRepo(values.repo),
+    serverUrl: github.context.serverUrl
+  }
+}
+
+function parseRepo(repo: string): RepoInfo {
+  const [owner, name, ...rest] = repo.split('/')
+  if (!owner || !name || rest.length > 0) {
+    throw new Error(
+      `Invalid --repo '${repo}': expected <owner>/<name>, e.g. octo-org/octo-repo.`
+    )
+  }
+
+  return { owner, repo: name }
+}
+
+/**
+ * Runs the linker with the given command-line arguments.
+ *
+ * @param args - The arguments, without the node executable and script.
+ * @returns The exit code: 0 on success, 1 if the arguments or the run failed.
+ */
+export async function runCli(args: string[]): Promise<number> {
+  let source: ConfigSource | null
+  try {
+    source = parseCliArguments(args)
+  } catch (error) {
+    console.error(`${errorMessage(error)}\n\n${usage}`)
+    return 1
+  }
+
+  if (!source) {
+    console.log(usage)
+    return 0
+  }
+
+  try {
+    await processRelease(loadConfig(source))
+    return 0
+  } catch (error) {
+    console.error(errorMessage(error))
+    return 1
+  }
+}
+
+/**
+ * Makes the output of `@actions/core` readable in a terminal when running outside
+ * GitHub Actions: outputs are discarded and workflow commands such as `::group::` are
+ * printed as plain text.
+ */
+export function useTerminalOutput() {
+  if (process.env.GITHUB_ACTIONS === 'true') {
+    return
+  }
+
+  process.env.GITHUB_OUTPUT ||= os.devNull
+
+  const write = process.stdout.write.bind(process.stdout) as (
+    chunk: string | Uint8Array,
+    ...rest: unknown[]
+  ) => boolean
+  process.stdout.write = ((chunk: string | Uint8Array, ...rest: unknown[]) => {
+    const text =
+      typeof chunk === 'string' ? formatWorkflowCommands(chunk) : chunk
+    return text ? write(text, ...rest) : true
+  }) as typeof process.stdout.write
+}
+
+/**
+ * Rewrites the workflow commands in a chunk of output as plain text, e.g.
+ * `::warning::Slow` as `Warning: Slow`. Commands without a meaning in a terminal,
+ * such as `::endgroup::`, are dropped.
+ *
+ * @param text - Lines written to the standard output.
+ * @returns The lines to print.
+ */
+export function formatWorkflowCommands(text: string): string {
+  return text.replace(
+    /^::([\w-]+)(?: [^:]*)?::(.*)(\r?\n|$)/gm,
+    (command, name: string, message: string, newline: string) => {
+      const label = workflowCommandLabels[name]
+      return label === undefined
+        ? ''
+        : `${label}${unescapeWorkflowCommand(message)}${newline}`
+    }
+  )
+}
+
+/** The prefix printed for each workflow command that is kept in a terminal. */
+const workflowCommandLabels: Record<string, string> = {
+  group: '',
+  notice: 'Notice: ',
+  warning: 'Warning: ',
+  error: 'Error: '
+}
+
+function unescapeWorkflowCommand(message: string) {
+  return message
+    .replace(/%0D/g, '\r')
+    .replace(/%0A/g, '\n')
+    .replace(/%25/g, '%')
+}
+
+function errorMessage(error: unknown) {
+  return error instanceof Error ? error.message : String(error)
+}
@@ -0,0 +1,28 @@
+/**
+ * Runs the callback for every item, with at most `limit` callbacks running at a time.
+ *
+ * Items are started in order; a slot is taken by the next item as soon as a callback
+ * finishes. Rejects with the first error once the running callbacks have settled,
+ * so callbacks that must not stop the others should catch their own errors.
+ *
+ * @param items - The items to process.
+ * @param limit - The maximum number of callbacks running at a time.
+ * @param callback - Processes one item.
+ */
+export async function forEachConcurrently<T>(
+  items: T[],
+  limit: number,
+  callback: (item: T) => Promise<void>
+): Promise<void> {
+  let nextIndex = 0
+  const workers = Array.from(
+    { length: Math.min(Math.max(limit, 1), items.length) },
+    async () => {
+      while (nextIndex < items.length) {
+        await callback(items[nextIndex++])
+      }
+    }
+  )
+
+  await Promise.all(workers)
+}
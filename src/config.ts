@@ -1,32 +1,233 @@
 import * as core from '@actions/core'
 import * as github from '@actions/github'
+import { defaultLinearApiUrl } from './linear_client.js'
+import { ConfigFile, readConfigFile } from './config_file.js'
+import { defaultBackfillStateFile } from './backfill_state.js'
+import { defaultReleaseCommentTemplate } from './issue_comment.js'
+import {
+  defaultLabelGroupTemplate,
+  defaultPrereleaseLabelGroupTemplate,
+  defaultLabelNameTemplate
+} from './label_attach.js'
 
 export enum ReleaseMode {
   Label = 'label',
   Link = 'link',
-  Both = 'both'
+  Both = 'both',
+  Unlink = 'unlink'
+}
+
+export enum PreviousReleaseStrategy {
+  Created = 'created',
+  Semver = 'semver'
+}
+
+export enum LabelPolicy {
+  Replace = 'replace',
+  KeepFirst = 'keep-first',
+  Accumulate = 'accumulate'
+}
+
+export enum WorkflowStateType {
+  Triage = 'triage',
+  Backlog = 'backlog',
+  Unstarted = 'unstarted',
+  Started = 'started',
+  Completed = 'completed',
+  Canceled = 'canceled'
+}
+
+export enum ReleaseNotesGroupBy {
+  Team = 'team',
+  Label = 'label'
 }
 
 export interface AppConfig {
   linearApiUrl: string
+  githubServerUrl: string
   linearApiKey: string
   githubToken: string
   githubOrg: string
   githubRepo: string
   versionName: string
   releaseMode: ReleaseMode
+  targetStateName: string
+  dryRun: boolean
+  identifierFallback: boolean
+  identifierTeamKeys: string[]
+  linearBatchSize: number
+  previousTag: string
+  previousReleaseStrategy: PreviousReleaseStrategy
+  tagPrefix: string
+  paths: string[]
+  issueComment: boolean
+  issueCommentTemplate: string
+  releaseNotes: boolean
+  releaseNotesGroupBy: ReleaseNotesGroupBy
+  prComment: boolean
+  prLabelTemplate: string
+  restorePreviousLabel: boolean
+  archiveEmptyLabel: boolean
+  labelGroupTemplate: string
+  prereleaseLabelGroupTemplate: string
+  labelNameTemplate: string
+  labelColor: string
+  labelTeamKeys: string[]
+  labelPolicy: LabelPolicy
+  labelRetentionCount: number
+  labelRetentionDays: number
+  archiveLabelsOnOpenIssues: boolean
+  backfillFromTag: string
+  backfillSince: Date | null
+  backfillStateFile: string
+  includeTeams: string[]
+  excludeTeams: string[]
+  includeStateTypes: WorkflowStateType[]
+  excludeStateTypes: WorkflowStateType[]
+  includeLabels: string[]
+  excludeLabels: string[]
+  includeProjects: string[]
+  excludeProjects: string[]
+  propagateToParents: boolean
+  parentTargetStateName: string
+  projectUpdates: boolean
+}
+
+/**
+ * Where the settings of a run come from: the action inputs and the GitHub Actions
+ * context, or the flags of the command-line interface.
+ */
+export interface ConfigSource {
+  /** Reads a setting by its input name, returning an empty string if it is not set. */
+  getInput: (name: string) => string
+  repo: RepoInfo
+  /** The URL of the GitHub server, e.g. `https://github.com`. */
+  serverUrl: string
+}
+
+/**
+ * Returns the source of the settings of the action: its inputs and the GitHub
+ * Actions context.
+ *
+ * @throws {Error} If the repository information is not available in the context.
+ */
+export function getActionConfigSource(): ConfigSource {
+  return {
+    getInput: (name) => core.getInput(name),
+    repo: getOwnerAndRepoFromContext(),
+    serverUrl: github.context.serverUrl
+  }
 }
 
-const repo: RepoInfo = getOwnerAndRepoFromContext()
+/**
+ * Reads and validates the settings of a run. Settings that are not given by the
+ * source are read from the configuration file.
+ *
+ * @param source - Where the settings come from; the action inputs by default.
+ * @returns The settings.
+ * @throws {Error} If the configuration file or a setting is invalid.
+ */
+export function loadConfig(
+  source: ConfigSource = getActionConfigSource()
+): AppConfig {
+  const { repo } = source
+  // Read before any setting so that every value is validated before the first API call
+  const inputs = createInputReader(
+    source.getInput,
+    readConfigFile(source.getInput('config-file'))
+  )
 
-export const config: AppConfig = {
-  linearApiUrl: 'https://api.linear.app/graphql',
-  linearApiKey: core.getInput('linear-api-key'),
-  githubToken: core.getInput('github-token'),
-  githubOrg: repo.owner,
-  githubRepo: repo.repo,
-  versionName: core.getInput('version-name'),
-  releaseMode: core.getInput('release-mode') as ReleaseMode
+  const config: AppConfig = {
+    linearApiUrl: getUrlInput(inputs, 'linear-api-url') || defaultLinearApiUrl,
+    githubServerUrl: source.serverUrl,
+    linearApiKey: source.getInput('linear-api-key'),
+    githubToken: source.getInput('github-token'),
+    githubOrg: repo.owner,
+    githubRepo: repo.repo,
+    versionName: source.getInput('version-name'),
+    releaseMode: getEnumInput(inputs, 'release-mode', ReleaseMode),
+    targetStateName: inputs.get('target-state'),
+    dryRun: getBooleanInput(inputs, 'dry-run'),
+    identifierFallback: getBooleanInput(inputs, 'identifier-fallback'),
+    identifierTeamKeys: getListInput(inputs, 'identifier-team-keys'),
+    linearBatchSize: getPositiveIntegerInput(inputs, 'linear-batch-size', 50),
+    previousTag: source.getInput('previous-tag'),
+    previousReleaseStrategy: getEnumInput(
+      inputs,
+      'previous-release-strategy',
+      PreviousReleaseStrategy,
+      PreviousReleaseStrategy.Created
+    ),
+    tagPrefix: inputs.get('tag-prefix'),
+    paths: getListInput(inputs, 'paths'),
+    issueComment: getBooleanInput(inputs, 'issue-comment'),
+    issueCommentTemplate:
+      inputs.get('issue-comment-template') || defaultReleaseCommentTemplate,
+    releaseNotes: getBooleanInput(inputs, 'release-notes'),
+    releaseNotesGroupBy: getEnumInput(
+      inputs,
+      'release-notes-group-by',
+      ReleaseNotesGroupBy,
+      ReleaseNotesGroupBy.Team
+    ),
+    prComment: getBooleanInput(inputs, 'pr-comment'),
+    prLabelTemplate: inputs.get('pr-label'),
+    restorePreviousLabel: getBooleanInput(inputs, 'restore-previous-label'),
+    archiveEmptyLabel: getBooleanInput(inputs, 'archive-empty-label'),
+    labelGroupTemplate:
+      inputs.get('label-group-template') || defaultLabelGroupTemplate,
+    prereleaseLabelGroupTemplate:
+      inputs.get('prerelease-label-group-template') ||
+      defaultPrereleaseLabelGroupTemplate,
+    labelNameTemplate:
+      inputs.get('label-name-template') || defaultLabelNameTemplate,
+    labelColor: getColorInput(inputs, 'label-color'),
+    labelTeamKeys: getListInput(inputs, 'label-teams'),
+    labelPolicy: getEnumInput(
+      inputs,
+      'label-policy',
+      LabelPolicy,
+      LabelPolicy.Replace
+    ),
+    labelRetentionCount: getNonNegativeIntegerInput(
+      inputs,
+      'label-retention-count'
+    ),
+    labelRetentionDays: getNonNegativeIntegerInput(
+      inputs,
+      'label-retention-days'
+    ),
+    archiveLabelsOnOpenIssues: getBooleanInput(
+      inputs,
+      'archive-labels-on-open-issues'
+    ),
+    backfillFromTag: source.getInput('backfill-from-tag'),
+    backfillSince: getDateInput(inputs, 'backfill-since'),
+    backfillStateFile:
+      inputs.get('backfill-state-file') || defaultBackfillStateFile,
+    includeTeams: getListInput(inputs, 'include-teams'),
+    excludeTeams: getListInput(inputs, 'exclude-teams'),
+    includeStateTypes: getEnumListInput(
+      inputs,
+      'include-state-types',
+      WorkflowStateType
+    ),
+    excludeStateTypes: getEnumListInput(
+      inputs,
+      'exclude-state-types',
+      WorkflowStateType
+    ),
+    includeLabels: getListInput(inputs, 'include-labels'),
+    excludeLabels: getListInput(inputs, 'exclude-labels'),
+    includeProjects: getListInput(inputs, 'include-projects'),
+    excludeProjects: getListInput(inputs, 'exclude-projects'),
+    propagateToParents: getBooleanInput(inputs, 'propagate-to-parents'),
+    parentTargetStateName: inputs.get('parent-target-state'),
+    projectUpdates: getBooleanInput(inputs, 'project-updates')
+  }
+
+  validateLabelPolicy(inputs, config)
+  return config
 }
 
 export interface RepoInfo {
@@ -49,3 +250,286 @@ export function getOwnerAndRepoFromContext(): RepoInfo {
 
   return { owner, repo }
 }
+
+/**
+ * Checks that the release labels of an issue can pile up under the `accumulate`
+ * label policy. Linear allows only one label per label group on an issue, so every
+ * release needs a group of its own, which `{version}` in the group templates gives.
+ *
+ * The label retention works within a group, so with a group per release it never
+ * archives anything; setting it is reported as a warning.
+ *
+ * @param inputs - The source of the settings.
+ * @param config - The settings read so far.
+ * @throws {Error} If the policy is `accumulate` and a group template has no `{version}`.
+ */
+function validateLabelPolicy(inputs: InputReader, config: AppConfig) {
+  if (config.labelPolicy !== LabelPolicy.Accumulate) {
+    return
+  }
+
+  const groupTemplates = {
+    'label-group-template': config.labelGroupTemplate,
+    'prerelease-label-group-template': config.prereleaseLabelGroupTemplate
+  }
+  for (const [name, template] of Object.entries(groupTemplates)) {
+    if (!template.includes('{version}')) {
+      throw new Error(
+        `${inputs.describe(name)} ('${template}') needs '{version}' when 'label-policy' is 'accumulate': Linear allows only one label per group on an issue, so every release needs a group of its own.`
+      )
+    }
+  }
+
+  if (config.labelRetentionCount > 0 || config.labelRetentionDays > 0) {
+    core.warning(
+      "'label-retention-count' and 'label-retention-days' have no effect when 'label-policy' is 'accumulate': every release gets a label group of its own, so no group ever holds labels to archive."
+    )
+  }
+}
+
+interface InputReader {
+  /** Reads a setting, returning an empty string if neither source sets it. */
+  get: (name: string) => string
+  /** Names a setting in error messages, pointing at the source it was read from. */
+  describe: (name: string) => string
+}
+
+/**
+ * Reads settings from the given source, falling back to the configuration file.
+ */
+function createInputReader(
+  getInput: (name: string) => string,
+  configFile: ConfigFile
+): InputReader {
+  return {
+    get: (name) => getInput(name) || configFile.values[name] || '',
+    describe: (name) =>
+      !getInput(name) && configFile.values[name]
+        ? `Key '${name}' in '${configFile.path}'`
+        : `Input '${name}'`
+  }
+}
+
+/**
+ * Reads an action input holding `true` or `false`.
+ *
+ * @param inputs - The source of the settings.
+ * @param name - The name of the input.
+ * @returns The parsed value, or `false` if the input is empty.
+ * @throws {Error} If the input is neither `true` nor `false`.
+ */
+function getBooleanInput(inputs: InputReader, name: string): boolean {
+  const value = inputs.get(name)
+  if (!value) {
+    return false
+  }
+
+  if (!/^(true|false)$/i.test(value)) {
+    throw new Error(
+      `${inputs.describe(name)} must be 'true' or 'false', got '${value}'.`
+    )
+  }
+
+  return value.toLowerCase() === 'true'
+}
+
+/**
+ * Reads an action input holding a list of values separated by commas or newlines.
+ *
+ * @param inputs - The source of the settings.
+ * @param name - The name of the input.
+ * @returns The trimmed, non-empty values of the input.
+ */
+function getListInput(inputs: InputReader, name: string): string[] {
+  return inputs
+    .get(name)
+    .split(/[,\n]/)
+    .map((value) => value.trim())
+    .filter((value) => value.length > 0)
+}
+
+/**
+ * Reads an action input holding a positive whole number.
+ *
+ * @param inputs - The source of the settings.
+ * @param name - The name of the input.
+ * @param defaultValue - The value to use when the input is empty.
+ * @returns The parsed number.
+ * @throws {Error} If the input is not a positive whole number.
+ */
+function getPositiveIntegerInput(
+  inputs: InputReader,
+  name: string,
+  defaultValue: number
+): number {
+  const value = inputs.get(name)
+  if (!value) {
+    return defaultValue
+  }
+
+  const parsed = Number(value)
+  if (!Number.isInteger(parsed) || parsed < 1) {
+    throw new Error(
+      `${inputs.describe(name)} must be a positive whole number, got '${value}'.`
+    )
+  }
+
+  return parsed
+}
+
+/**
+ * Reads an action input holding a whole number that may be 0.
+ *
+ * @param inputs - The source of the settings.
+ * @param name - The name of the input.
+ * @returns The parsed number, or 0 if the input is empty.
+ * @throws {Error} If the input is not a whole number of at least 0.
+ */
+function getNonNegativeIntegerInput(inputs: InputReader, name: string): number {
+  const value = inputs.get(name)
+  if (!value) {
+    return 0
+  }
+
+  const parsed = Number(value)
+  if (!Number.isInteger(parsed) || parsed < 0) {
+    throw new Error(
+      `${inputs.describe(name)} must be a whole number, got '${value}'.`
+    )
+  }
+
+  return parsed
+}
+
+/**
+ * Reads an action input holding an HTTP(S) URL.
+ *
+ * @param inputs - The source of the settings.
+ * @param name - The name of the input.
+ * @returns The URL, or an empty string if the input is empty.
+ * @throws {Error} If the input is not an HTTP(S) URL.
+ */
+function getUrlInput(inputs: InputReader, name: string): string {
+  const value = inputs.get(name)
+  if (!value) {
+    return ''
+  }
+
+  if (!URL.canParse(value) || !/^https?:$/.test(new URL(value).protocol)) {
+    throw new Error(
+      `${inputs.describe(name)} must be an http(s) URL, got '${value}'.`
+    )
+  }
+
+  return value
+}
+
+/**
+ * Reads an action input holding an ISO 8601 date such as `2024-01-31`.
+ *
+ * @param inputs - The source of the settings.
+ * @param name - The name of the input.
+ * @returns The date, or `null` if the input is empty.
+ * @throws {Error} If the input is not an ISO 8601 date.
+ */
+function getDateInput(inputs: InputReader, name: string): Date | null {
+  const value = inputs.get(name)
+  if (!value) {
+    return null
+  }
+
+  const date = new Date(value)
+  if (!/^\d{4}-\d{2}-\d{2}/.test(value) || Number.isNaN(date.getTime())) {
+    throw new Error(
+      `${inputs.describe(name)} must be an ISO 8601 date such as '2024-01-31', got '${value}'.`
+    )
+  }
+
+  return date
+}
+
+/**
+ * Reads an action input holding a hex color such as `#5e6ad2`.
+ *
+ * @param inputs - The source of the settings.
+ * @param name - The name of the input.
+ * @returns The color with a leading `#`, or an empty string if the input is empty.
+ * @throws {Error} If the input is not a hex color.
+ */
+function getColorInput(inputs: InputReader, name: string): string {
+  const value = inputs.get(name)
+  if (!value) {
+    return ''
+  }
+
+  if (!/^#?[0-9a-f]{6}$/i.test(value)) {
+    throw new Error(
+      `${inputs.describe(name)} must be a hex color such as '#5e6ad2', got '${value}'.`
+    )
+  }
+
+  return value.startsWith('#') ? value : `#${value}`
+}
+
+/**
+ * Reads an action input that must be one of the values of the given enum.
+ *
+ * @param inputs - The source of the settings.
+ * @param name - The name of the input.
+ * @param values - The enum holding the accepted values.
+ * @param defaultValue - The value to use when the input is empty. Without one, the
+ * input is required.
+ * @returns The input value.
+ * @throws {Error} If the input is not one of the accepted values.
+ */
+function getEnumInput<T extends string>(
+  inputs: InputReader,
+  name: string,
+  values: Record<string, T>,
+  defaultValue?: T
+): T {
+  const value = inputs.get(name)
+  const accepted = Object.values(values)
+  if (!value && defaultValue !== undefined) {
+    return defaultValue
+  }
+  if (!value) {
+    throw new Error(
+      `Input '${name}' is required; set it, or the key in the configuration file, to one of ${accepted.map((v) => `'${v}'`).join(', ')}.`
+    )
+  }
+
+  if (!accepted.includes(value as T)) {
+    throw new Error(
+      `${inputs.describe(name)} must be one of ${accepted.map((v) => `'${v}'`).join(', ')}, got '${value}'.`
+    )
+  }
+
+  return value as T
+}
+
+/**
+ * Reads an action input holding a list of values of the given enum, separated by
+ * commas or newlines.
+ *
+ * @param inputs - The source of the settings.
+ * @param name - The name of the input.
+ * @param values - The enum holding the accepted values.
+ * @returns The values of the input; empty if the input is empty.
+ * @throws {Error} If a value is not one of the accepted values.
+ */
+function getEnumListInput<T extends string>(
+  inputs: InputReader,
+  name: string,
+  values: Record<string, T>
+): T[] {
+  const accepted = Object.values(values)
+  return getListInput(inputs, name).map((value) => {
+    if (!accepted.includes(value.toLowerCase() as T)) {
+      throw new Error(
+        `${inputs.describe(name)} must only contain ${accepted.map((v) => `'${v}'`).join(', ')}, got '${value}'.`
+      )
+    }
+    return value.toLowerCase() as T
+  })
+}
@@ -0,0 +1,145 @@
+import * as fs from 'node:fs'
+import * as path from 'node:path'
+import { parse } from 'yaml'
+
+export const defaultConfigFile = '.github/release-linker.yml'
+
+/**
+ * The inputs that can also be set in the configuration file. The credentials and the
+ * inputs choosing the releases to link (the version, the previous tag and the backfill
+ * range) only come from the action inputs, as a value kept in the file would apply to
+ * every later run.
+ */
+export const configFileKeys = [
+  'linear-api-url',
+  'release-mode',
+  'target-state',
+  'dry-run',
+  'identifier-fallback',
+  'identifier-team-keys',
+  'linear-batch-size',
+  'previous-release-strategy',
+  'tag-prefix',
+  'paths',
+  'issue-comment',
+  'issue-comment-template',
+  'release-notes',
+  'release-notes-group-by',
+  'pr-comment',
+  'pr-label',
+  'restore-previous-label',
+  'archive-empty-label',
+  'label-group-template',
+  'prerelease-label-group-template',
+  'label-name-template',
+  'label-color',
+  'label-teams',
+  'label-policy',
+  'label-retention-count',
+  'label-retention-days',
+  'archive-labels-on-open-issues',
+  'backfill-state-file',
+  'include-teams',
+  'exclude-teams',
+  'include-state-types',
+  'exclude-state-types',
+  'include-labels',
+  'exclude-labels',
+  'include-projects',
+  'exclude-projects',
+  'propagate-to-parents',
+  'parent-target-state',
+  'project-updates'
+]
+
+/**
+ * The settings of a configuration file, as strings in the format of action inputs.
+ */
+export interface ConfigFile {
+  /** The path of the file, as given; empty if no file was read. */
+  path: string
+  values: Record<string, string>
+}
+
+/**
+ * Reads and validates the repository's configuration file.
+ *
+ * The file is a YAML mapping whose keys are the names of action inputs, e.g.
+ * `release-mode: both`. Lists may be given as YAML sequences and booleans and numbers
+ * as YAML scalars; they are converted to the string format of action inputs so that
+ * both sources are validated the same way.
+ *
+ * @param configFile - The path of the file relative to the workspace. When empty, the
+ * default file is read if it exists.
+ * @returns The settings of the file.
+ * @throws {Error} If a given file does not exist, is not valid YAML, or contains an
+ * unknown key or a value of an unsupported type.
+ */
+export function readConfigFile(configFile: string): ConfigFile {
+  const filePath = configFile || defaultConfigFile
+  const absolutePath = path.resolve(
+    process.env.GITHUB_WORKSPACE || process.cwd(),
+    filePath
+  )
+
+  if (!fs.existsSync(absolutePath)) {
+    if (configFile) {
+      throw new Error(`Configuration file '${filePath}' does not exist.`)
+    }
+    return { path: '', values: {} }
+  }
+
+  let document: unknown
+  try {
+    document = parse(fs.readFileSync(absolutePath, 'utf8'))
+  } catch (error) {
+    throw new Error(
+      `Configuration file '${filePath}' is not valid YAML: ${String(error)}`
+    )
+  }
+
+  if (document === null || document === undefined) {
+    return { path: filePath, values: {} }
+  }
+  if (typeof document !== 'object' || Array.isArray(document)) {
+    throw new Error(
+      `Configuration file '${filePath}' must be a mapping of settings.`
+    )
+  }
+
+  const values: Record<string, string> = {}
+  for (const [key, value] of Object.entries(document)) {
+    if (!configFileKeys.includes(key)) {
+      throw new Error(
+        `Unknown key '${key}' in configuration file '${filePath}'. Supported keys: ${configFileKeys.join(', ')}.`
+      )
+    }
+
+    const stringValue = toInputValue(value)
+    if (stringValue === null) {
+      throw new Error(
+        `Key '${key}' in configuration file '${filePath}' must be a string, number, boolean or list of those.`
+      )
+    }
+    values[key] = stringValue
+  }
+
+  return { path: filePath, values }
+}
+
+function toInputValue(value: unknown): string | null {
+  if (value === null) {
+    return ''
+  }
+  if (['string', 'number', 'boolean'].includes(typeof value)) {
+    return String(value)
+  }
+  if (
+    Array.isArray(value) &&
+    value.every((item) => ['string', 'number'].includes(typeof item))
+  ) {
+    return value.join('\n')
+  }
+
+  return null
+}
@@ -0,0 +1,46 @@
+import * as core from '@actions/core'
+
+/**
+ * A Linear mutation that would have been sent if the action was not in dry-run mode.
+ */
+export interface PlannedMutation {
+  mutation:
+    | 'attachmentCreate'
+    | 'attachmentDelete'
+    | 'commentCreate'
+    | 'issueLabelArchive'
+    | 'issueLabelCreate'
+    | 'issueUpdate'
+    | 'projectUpdateCreate'
+  description: string
+  variables: Record<string, unknown>
+}
+
+const plannedMutations: PlannedMutation[] = []
+
+/**
+ * Records a mutation instead of sending it to Linear.
+ *
+ * @param plannedMutation - The mutation that would have been sent.
+ */
+export function planMutation(plannedMutation: PlannedMutation) {
+  core.info(
+    `[dry-run] Would call ${plannedMutation.mutation}: ${plannedMutation.description}`
+  )
+  plannedMutations.push(plannedMutation)
+}
+
+/**
+ * Forgets the recorded mutations, so that each release only reports its own.
+ */
+export function resetPlannedMutations() {
+  plannedMutations.length = 0
+}
+
+/**
+ * Returns every mutation recorded since the last reset, in the order they were
+ * planned.
+ */
+export function getPlannedMutations(): PlannedMutation[] {
+  return [...plannedMutations]
+}
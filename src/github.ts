@@ -1,17 +1,78 @@
 import { Octokit } from '@octokit/rest'
 import * as core from '@actions/core'
+import * as github from '@actions/github'
+import { PreviousReleaseStrategy } from './config.js'
+import {
+  compareVersions,
+  parseVersion,
+  SemanticVersion,
+  stripTagPrefix
+} from './semver.js'
+import { getGlobPath, matchesAnyGlob } from './glob.js'
+import { replaceReleaseNotesSection } from './release_notes.js'
+
+export interface ReleasePullRequests {
+  prUrls: string[]
+  /** Whether the GitHub release is marked as a prerelease. */
+  prerelease: boolean
+  /** When the release was published, or created if it is still a draft. */
+  releaseDate: string
+  /** The tag of the release the diff was computed from, if any. */
+  previousTag?: string
+  /** How the previous tag was chosen: `input`, `created`, `semver` or `none`. */
+  previousTagStrategy: string
+}
+
+export interface ReleaseRangeOptions {
+  /** An explicit previous release tag; empty to detect it. */
+  previousTag?: string
+  /** How to detect the previous release when no tag is given. */
+  strategy?: PreviousReleaseStrategy
+  /**
+   * Only releases whose tag starts with this prefix are considered, so that the
+   * components of a monorepo (e.g., `api-v2.3.0` and `web-v5.1.0`) are kept apart.
+   */
+  tagPrefix?: string
+  /** When set, only commits touching a file that matches one of these globs count. */
+  paths?: string[]
+}
 
+/**
+ * Finds the pull requests that were shipped in a release.
+ *
+ * The PRs are taken from the commits between the previous release and the given
+ * release. The previous release is the explicitly configured tag if there is one, and
+ * is detected with the given strategy otherwise. Prereleases are only considered as
+ * the previous release of another prerelease, so a final release also covers the
+ * issues shipped in its release candidates. Without a previous release the full
+ * commit history of the release tag is used.
+ *
+ * @param versionName - The tag of the release (e.g., "1.2.3").
+ * @param githubToken - The GitHub token used to authenticate requests.
+ * @param githubOrg - The owner of the repository.
+ * @param githubRepo - The name of the repository.
+ * @param options - How to determine the range of commits of the release.
+ * @returns The PR URLs and the previous tag that was used.
+ */
 export async function getPullRequestUrlsForRelease(
   versionName: string,
   githubToken: string,
   githubOrg: string,
-  githubRepo: string
-): Promise<string[]> {
+  githubRepo: string,
+  options: ReleaseRangeOptions = {}
+): Promise<ReleasePullRequests> {
+  const {
+    previousTag: previousTagOverride,
+    strategy = PreviousReleaseStrategy.Created,
+    tagPrefix = '',
+    paths = []
+  } = options
+
   core.info(
     `Fetching PRs between previous and current release tags for '${versionName}'...`
   )
 
-  const octokit: Octokit = new Octokit({ auth: githubToken })
+  const octokit: Octokit = createOctokit(githubToken)
 
   const currentRelease = await octokit.repos.getReleaseByTag({
     owner: githubOrg,
@@ -19,44 +80,142 @@ export async function getPullRequestUrlsForRelease(
     tag: versionName
   })
 
-  const createdAt = currentRelease.data.created_at
+  const prerelease = currentRelease.data.prerelease
+  const releaseDate =
+    currentRelease.data.published_at || currentRelease.data.created_at
+  if (prerelease) {
+    core.info(`Release ${versionName} is a prerelease.`)
+  }
 
-  const previousReleaseTag = await getPreviousReleaseTag(
-    octokit,
-    githubOrg,
-    githubRepo,
-    createdAt,
-    versionName
-  )
+  const { previousTag, previousTagStrategy } = previousTagOverride
+    ? { previousTag: previousTagOverride, previousTagStrategy: 'input' }
+    : await resolvePreviousReleaseTag(
+        octokit,
+        githubOrg,
+        githubRepo,
+        currentRelease.data.created_at,
+        versionName,
+        strategy,
+        !prerelease,
+        tagPrefix
+      )
 
-  if (!previousReleaseTag) {
+  if (!previousTag) {
     core.info(
       'No previous release found; falling back to full commit history traversal from tag commit.'
     )
 
-    return await fetchFullHistoryPRs(
-      octokit,
-      githubOrg,
-      githubRepo,
-      versionName
-    )
+    return {
+      prUrls: await fetchFullHistoryPRs(
+        octokit,
+        githubOrg,
+        githubRepo,
+        versionName,
+        paths
+      ),
+      prerelease,
+      releaseDate,
+      previousTagStrategy: 'none'
+    }
   }
 
   core.info(
-    `Previous release detected: ${previousReleaseTag}. Computing diff ${previousReleaseTag} -> ${versionName}.`
+    `Previous release detected: ${previousTag} (strategy: ${previousTagStrategy}). Computing diff ${previousTag} -> ${versionName}.`
   )
 
-  const commits = await compareCommitsBetweenReleases(
+  let commits = await compareCommitsBetweenReleases(
     octokit,
     githubOrg,
     githubRepo,
-    previousReleaseTag,
+    previousTag,
     versionName
   )
 
-  return await extractPrUrlsFromCommits(commits, octokit, githubOrg, githubRepo)
+  if (paths.length > 0) {
+    commits = await filterCommitsByPaths(
+      commits,
+      octokit,
+      githubOrg,
+      githubRepo,
+      paths
+    )
+  }
+
+  return {
+    prUrls: await extractPrUrlsFromCommits(
+      commits,
+      octokit,
+      githubOrg,
+      githubRepo
+    ),
+    prerelease,
+    releaseDate,
+    previousTag,
+    previousTagStrategy
+  }
 }
 
+async function resolvePreviousReleaseTag(
+  octokit: Octokit,
+  githubOrg: string,
+  githubRepo: string,
+  createdAt: string,
+  versionName: string,
+  strategy: PreviousReleaseStrategy,
+  excludePrereleases: boolean,
+  tagPrefix: string
+): Promise<{ previousTag?: string; previousTagStrategy: string }> {
+  if (tagPrefix && !versionName.startsWith(tagPrefix)) {
+    core.warning(
+      `Tag '${versionName}' does not start with the tag prefix '${tagPrefix}'.`
+    )
+  }
+
+  if (strategy === PreviousReleaseStrategy.Semver) {
+    if (parseVersion(stripTagPrefix(versionName, tagPrefix))) {
+      return {
+        previousTag: await getPreviousReleaseTagBySemver(
+          octokit,
+          githubOrg,
+          githubRepo,
+          versionName,
+          excludePrereleases,
+          tagPrefix
+        ),
+        previousTagStrategy: PreviousReleaseStrategy.Semver
+      }
+    }
+
+    core.info(
+      `Tag '${versionName}' is not a semantic version; detecting the previous release by creation date instead.`
+    )
+  }
+
+  return {
+    previousTag: await getPreviousReleaseTag(
+      octokit,
+      githubOrg,
+      githubRepo,
+      createdAt,
+      versionName,
+      excludePrereleases,
+      tagPrefix
+    ),
+    previousTagStrategy: PreviousReleaseStrategy.Created
+  }
+}
+
+/**
+ * Number of commits resolved to pull requests per GraphQL request. Each commit is an
+ * aliased `object` lookup, which keeps the query well below GitHub's node limits.
+ */
+const commitBatchSize = 50
+
+/**
+ * Number of commits requested per page of the compare API (GitHub's maximum).
+ */
+const comparePageSize = 100
+
 async function extractPrUrlsFromCommits(
   commits: { sha: string }[],
   octokit: Octokit,
@@ -64,39 +223,54 @@ async function extractPrUrlsFromCommits(
   githubRepo: string
 ) {
   const prUrls = new Set<string>()
-  const commitQuery = `query CommitAssociatedPRs($owner: String!, $repo: String!, $oid: GitObjectID!) {
-    repository(owner: $owner, name: $repo) {
-      object(oid: $oid) {
-        ... on Commit {
-          associatedPullRequests(first: 20) {
-            nodes {
-              url
+
+  interface AssociatedPullRequests {
+    associatedPullRequests?: {
+      nodes?: { url?: string }[]
+    }
+  }
+
+  for (let start = 0; start < commits.length; start += commitBatchSize) {
+    const batch = commits.slice(start, start + commitBatchSize)
+
+    const variables: Record<string, string> = {
+      owner: githubOrg,
+      repo: githubRepo
+    }
+    const aliasedLookups = batch.map((commit, index) => {
+      variables[`oid${index}`] = commit.sha
+      return `c${index}: object(oid: $oid${index}) {
+          ... on Commit {
+            associatedPullRequests(first: 20) {
+              nodes {
+                url
+              }
             }
           }
-        }
+        }`
+    })
+    const oidVariables = batch.map((_, index) => `$oid${index}: GitObjectID!`)
+
+    const commitQuery = `query CommitsAssociatedPRs($owner: String!, $repo: String!, ${oidVariables.join(', ')}) {
+      repository(owner: $owner, name: $repo) {
+        ${aliasedLookups.join('\n        ')}
       }
-    }
-  }`
+    }`
 
-  for (const c of commits) {
-    const sha = c.sha
     const resp = await octokit.graphql<{
-      repository?: {
-        object?: {
-          associatedPullRequests?: {
-            nodes?: { url?: string }[]
-          }
-        }
+      repository?: Record<string, AssociatedPullRequests | null>
+    }>(commitQuery, variables)
+
+    for (const commit of Object.values(resp?.repository || {})) {
+      const prs = commit?.associatedPullRequests?.nodes || []
+      for (const pr of prs) {
+        if (pr?.url) prUrls.add(pr.url)
       }
-    }>(commitQuery, {
-      owner: githubOrg,
-      repo: githubRepo,
-      oid: sha
-    })
-    const prs = resp?.repository?.object?.associatedPullRequests?.nodes || []
-    for (const pr of prs) {
-      if (pr?.url) prUrls.add(pr.url)
     }
+
+    core.info(
+      `Resolved PRs for ${start + batch.length} of ${commits.length} commit(s); accumulated ${prUrls.size} unique PR URL(s).`
+    )
   }
 
   core.info(`Discovered ${prUrls.size} unique PR URL(s) in commits.`)
@@ -110,19 +284,38 @@ async function compareCommitsBetweenReleases(
   previousReleaseTag: string,
   versionName: string
 ) {
-  const compare = await octokit.repos.compareCommits({
-    owner: githubOrg,
-    repo: githubRepo,
-    base: previousReleaseTag,
-    head: versionName
-  })
+  // A single compare response is capped at 250 commits, so larger ranges have to be
+  // paginated to avoid silently dropping PRs
+  const commits: { sha: string }[] = []
+  let page = 1
+
+  while (true) {
+    const compare = await octokit.repos.compareCommits({
+      owner: githubOrg,
+      repo: githubRepo,
+      base: previousReleaseTag,
+      head: versionName,
+      per_page: comparePageSize,
+      page
+    })
+
+    const pageCommits = compare.data.commits || []
+    commits.push(...pageCommits.map((c) => ({ sha: c.sha })))
+
+    if (
+      pageCommits.length < comparePageSize ||
+      commits.length >= compare.data.total_commits
+    ) {
+      break
+    }
+    page += 1
+  }
 
-  const commits = compare.data.commits || []
   core.info(
     `Found ${commits.length} commit(s) unique to ${versionName} over ${previousReleaseTag}. Fetching associated PRs...`
   )
 
-  return commits.map((c) => ({ sha: c.sha }))
+  return commits
 }
 
 async function getPreviousReleaseTag(
@@ -130,7 +323,9 @@ async function getPreviousReleaseTag(
   githubOrg: string,
   githubRepo: string,
   createdAt: string,
-  versionName: string
+  versionName: string,
+  excludePrereleases: boolean,
+  tagPrefix: string
 ) {
   let page = 1
   const perPage = 100
@@ -149,7 +344,9 @@ async function getPreviousReleaseTag(
         (r) =>
           r.created_at < createdAt &&
           r.tag_name !== versionName &&
-          r.published_at != null
+          r.published_at != null &&
+          r.tag_name.startsWith(tagPrefix) &&
+          !(excludePrereleases && r.prerelease)
       )
       .sort((a, b) => (a.created_at > b.created_at ? -1 : 1))
 
@@ -168,17 +365,126 @@ async function getPreviousReleaseTag(
   return previousReleaseTag
 }
 
+/**
+ * Finds the published release with the nearest lower semantic version than the given
+ * tag. Unlike the creation date, this keeps hotfix releases on an older release line
+ * (e.g., `1.4.3` published after `2.0.0`) diffed against their own predecessor.
+ * Tags that are not semantic versions are ignored.
+ */
+async function getPreviousReleaseTagBySemver(
+  octokit: Octokit,
+  githubOrg: string,
+  githubRepo: string,
+  versionName: string,
+  excludePrereleases: boolean,
+  tagPrefix: string
+) {
+  const currentVersion = parseVersion(stripTagPrefix(versionName, tagPrefix))
+  if (!currentVersion) {
+    return undefined
+  }
+
+  const releases = await octokit.paginate(octokit.repos.listReleases, {
+    owner: githubOrg,
+    repo: githubRepo,
+    per_page: 100
+  })
+
+  let previousReleaseTag: string | undefined
+  let previousVersion: SemanticVersion | null = null
+  for (const release of releases) {
+    if (
+      release.published_at == null ||
+      release.tag_name === versionName ||
+      !release.tag_name.startsWith(tagPrefix) ||
+      (excludePrereleases && release.prerelease)
+    ) {
+      continue
+    }
+
+    const version = parseVersion(stripTagPrefix(release.tag_name, tagPrefix))
+    if (
+      version &&
+      compareVersions(version, currentVersion) < 0 &&
+      (!previousVersion || compareVersions(version, previousVersion) > 0)
+    ) {
+      previousReleaseTag = release.tag_name
+      previousVersion = version
+    }
+  }
+
+  return previousReleaseTag
+}
+
+/**
+ * Keeps only the commits that touch at least one file matching the given globs.
+ *
+ * GitHub does not list the changed files of commits in bulk, so this needs one request
+ * per commit.
+ */
+async function filterCommitsByPaths(
+  commits: { sha: string }[],
+  octokit: Octokit,
+  githubOrg: string,
+  githubRepo: string,
+  paths: string[]
+) {
+  const matching: { sha: string }[] = []
+
+  for (const commit of commits) {
+    const { data } = await octokit.repos.getCommit({
+      owner: githubOrg,
+      repo: githubRepo,
+      ref: commit.sha
+    })
+
+    const touchesPaths = (data.files || []).some(
+      (file) =>
+        matchesAnyGlob(file.filename, paths) ||
+        (!!file.previous_filename &&
+          matchesAnyGlob(file.previous_filename, paths))
+    )
+    if (touchesPaths) {
+      matching.push(commit)
+    }
+  }
+
+  core.info(
+    `${matching.length} of ${commits.length} commit(s) touch the configured paths.`
+  )
+  return matching
+}
+
+/**
+ * Lists the PRs of every commit in the history of a release, for a release without a
+ * previous one.
+ *
+ * With `paths`, GitHub filters the history by each path, so the globs may not have
+ * wildcards other than a trailing `**`: matching every commit of the history against
+ * them would need one request per commit.
+ *
+ * @throws {Error} If a glob of `paths` cannot be used to filter the history.
+ */
 async function fetchFullHistoryPRs(
   client: Octokit,
   owner: string,
   repo: string,
-  tag: string
+  tag: string,
+  paths: string[]
 ) {
+  const historyPaths = paths.map(getGlobPath)
+  if (historyPaths.some((path) => path === null)) {
+    throw new Error(
+      `Release ${tag} has no previous release, so its whole history would be searched, which only works with 'paths' that name directories or files (e.g. 'packages/api/**'). Set 'previous-tag' to the release to start from instead.`
+    )
+  }
+
   const historyQuery = `
     query ReleaseCommitsAndPRUrls(
       $owner: String!
       $repo: String!
       $tag: String!
+      $path: String
       $commitsFirst: Int!
       $commitsCursor: String
     ) {
@@ -186,9 +492,10 @@ async function fetchFullHistoryPRs(
         release(tagName: $tag) {
           tagCommit {
             ... on Commit {
-              history(first: $commitsFirst, after: $commitsCursor) {
+              history(first: $commitsFirst, after: $commitsCursor, path: $path) {
                 pageInfo { hasNextPage endCursor }
                 nodes {
+                  oid
                   associatedPullRequests(first: 20) {
                     nodes { url }
                   }
@@ -201,9 +508,7 @@ async function fetchFullHistoryPRs(
     }
   `
 
-  let cursor: string | undefined
   const prSet = new Set<string>()
-  let page = 0
   const pageSize = 100
 
   interface HistoryQueryResponse {
@@ -216,6 +521,7 @@ async function fetchFullHistoryPRs(
               endCursor?: string
             }
             nodes?: {
+              oid: string
               associatedPullRequests?: {
                 nodes?: { url?: string }[]
               }
@@ -226,42 +532,354 @@ async function fetchFullHistoryPRs(
     }
   }
 
-  while (true) {
-    page += 1
+  // Without paths the history is traversed once, unfiltered
+  for (const path of historyPaths.length > 0 ? historyPaths : [null]) {
+    let cursor: string | undefined
+    let page = 0
+
+    while (true) {
+      page += 1
+
+      const resp = await client.graphql<HistoryQueryResponse>(historyQuery, {
+        owner,
+        repo,
+        tag,
+        path,
+        commitsFirst: pageSize,
+        commitsCursor: cursor
+      })
+
+      const history = resp?.repository?.release?.tagCommit?.history
+      if (!history) {
+        break
+      }
 
-    const resp = await client.graphql<HistoryQueryResponse>(historyQuery, {
-      owner,
-      repo,
-      tag,
-      commitsFirst: pageSize,
-      commitsCursor: cursor
-    })
+      for (const commit of history.nodes || []) {
+        const prs = commit?.associatedPullRequests?.nodes || []
+        for (const pr of prs) {
+          if (pr?.url) prSet.add(pr.url)
+        }
+      }
 
-    const history = resp?.repository?.release?.tagCommit?.history
-    if (!history) {
-      break
-    }
+      core.info(
+        `Full history page ${page}${path ? ` of '${path}'` : ''} processed; accumulated ${prSet.size} unique PR URL(s).`
+      )
 
-    for (const commit of history.nodes || []) {
-      const prs = commit?.associatedPullRequests?.nodes || []
-      for (const pr of prs) {
-        if (pr?.url) prSet.add(pr.url)
+      if (!history.pageInfo?.hasNextPage) {
+        break
       }
+      cursor = history.pageInfo.endCursor
     }
+  }
+
+  core.info(
+    `Full history traversal complete; discovered ${prSet.size} unique PR URL(s).`
+  )
+
+  return Array.from(prSet.values())
+}
+
+/**
+ * Writes the generated Linear section into the body of a GitHub release.
+ *
+ * The section is added to the end of the body the first time and replaced on later
+ * runs; hand-written text outside of it is left untouched. The release is not updated
+ * if its body would not change.
+ *
+ * @param versionName - The tag of the release (e.g., "1.2.3").
+ * @param section - The section to write, including its start and end markers.
+ * @param githubToken - The GitHub token used to authenticate requests.
+ * @param githubOrg - The owner of the repository.
+ * @param githubRepo - The name of the repository.
+ * @param dryRun - When true, the new section is only logged, not written.
+ */
+export async function updateReleaseNotes(
+  versionName: string,
+  section: string,
+  githubToken: string,
+  githubOrg: string,
+  githubRepo: string,
+  dryRun = false
+) {
+  const octokit: Octokit = createOctokit(githubToken)
+
+  const { data: release } = await octokit.repos.getReleaseByTag({
+    owner: githubOrg,
+    repo: githubRepo,
+    tag: versionName
+  })
 
+  const currentBody = release.body || ''
+  const body = replaceReleaseNotesSection(currentBody, section)
+  if (body === currentBody) {
+    core.info(`Release notes of ${versionName} are already up to date.`)
+    return
+  }
+
+  if (dryRun) {
     core.info(
-      `Full history page ${page} processed; accumulated ${prSet.size} unique PR URL(s).`
+      `[dry-run] Would update the release notes of ${versionName} with:\n${section}`
     )
+    return
+  }
 
-    if (!history.pageInfo?.hasNextPage) {
-      break
+  await octokit.repos.updateRelease({
+    owner: githubOrg,
+    repo: githubRepo,
+    release_id: release.id,
+    body
+  })
+  core.info(`Updated the release notes of ${versionName}.`)
+}
+
+export interface BackfillRangeOptions {
+  /** The tag of the first release to include; empty to not start at a tag. */
+  fromTag?: string
+  /** Only releases published at or after this date are included. */
+  since?: Date
+  /** Only releases whose tag starts with this prefix are included. */
+  tagPrefix?: string
+}
+
+/**
+ * Lists the published releases to backfill, oldest first.
+ *
+ * Releases are ordered by their publication date so that every release is linked
+ * after the one it is diffed against, the same order they would have been linked in
+ * had the action been running all along. Drafts are never included.
+ *
+ * @param githubToken - The GitHub token used to authenticate requests.
+ * @param githubOrg - The owner of the repository.
+ * @param githubRepo - The name of the repository.
+ * @param options - Where the backfill starts.
+ * @returns The tags of the releases, in chronological order.
+ * @throws {Error} If `fromTag` is not the tag of a published release.
+ */
+export async function listReleasesForBackfill(
+  githubToken: string,
+  githubOrg: string,
+  githubRepo: string,
+  options: BackfillRangeOptions = {}
+): Promise<string[]> {
+  const { fromTag = '', since, tagPrefix = '' } = options
+  const octokit: Octokit = createOctokit(githubToken)
+
+  const releases = (
+    await octokit.paginate(octokit.repos.listReleases, {
+      owner: githubOrg,
+      repo: githubRepo,
+      per_page: 100
+    })
+  )
+    .filter(
+      (release): release is typeof release & { published_at: string } =>
+        release.published_at != null &&
+        !release.draft &&
+        release.tag_name.startsWith(tagPrefix)
+    )
+    .sort((a, b) => (a.published_at < b.published_at ? -1 : 1))
+
+  let start = 0
+  if (fromTag) {
+    start = releases.findIndex((release) => release.tag_name === fromTag)
+    if (start === -1) {
+      throw new Error(
+        `Cannot start the backfill at '${fromTag}': no published release has that tag.`
+      )
     }
-    cursor = history.pageInfo.endCursor
   }
 
-  core.info(
-    `Full history traversal complete; discovered ${prSet.size} unique PR URL(s).`
+  return releases
+    .slice(start)
+    .filter((release) => !since || new Date(release.published_at) >= since)
+    .map((release) => release.tag_name)
+}
+
+export interface PullRequestDetails {
+  title: string
+  body: string
+  headRefName: string
+  mergeCommitMessage: string
+}
+
+/**
+ * Fetches the title, body, head branch name and merge (squash) commit message of a
+ * pull request.
+ *
+ * @param prUrl - The URL of the pull request (e.g., "https://github.com/org/repo/pull/1").
+ * @param githubToken - The GitHub token used to authenticate requests.
+ * @returns The pull request details, or `null` if the URL is not a pull request URL
+ * or the pull request could not be found.
+ */
+export async function getPullRequestDetails(
+  prUrl: string,
+  githubToken: string
+): Promise<PullRequestDetails | null> {
+  const pullRequestRef = parsePullRequestUrl(prUrl)
+  if (!pullRequestRef) {
+    return null
+  }
+  const { owner, repo, number } = pullRequestRef
+
+  const octokit: Octokit = createOctokit(githubToken)
+  const pullRequestQuery = `query PullRequestDetails($owner: String!, $repo: String!, $number: Int!) {
+    repository(owner: $owner, name: $repo) {
+      pullRequest(number: $number) {
+        title
+        body
+        headRefName
+        mergeCommit { message }
+      }
+    }
+  }`
+
+  const resp = await octokit.graphql<{
+    repository?: {
+      pullRequest?: {
+        title?: string
+        body?: string
+        headRefName?: string
+        mergeCommit?: { message?: string } | null
+      } | null
+    }
+  }>(pullRequestQuery, { owner, repo, number })
+
+  const pullRequest = resp?.repository?.pullRequest
+  if (!pullRequest) {
+    return null
+  }
+
+  return {
+    title: pullRequest.title || '',
+    body: pullRequest.body || '',
+    headRefName: pullRequest.headRefName || '',
+    mergeCommitMessage: pullRequest.mergeCommit?.message || ''
+  }
+}
+
+/**
+ * Marks the comment the action posts on released pull requests, so that later runs
+ * update it instead of adding another one.
+ */
+const pullRequestCommentMarker = '<!-- release-linker:pr-comment -->'
+
+/**
+ * Posts the release comment on a pull request, or updates the one posted by an
+ * earlier run.
+ *
+ * @param prUrl - The URL of the pull request (e.g., "https://github.com/org/repo/pull/1").
+ * @param body - The Markdown body of the comment; a hidden marker is appended to it.
+ * @param githubToken - The GitHub token used to authenticate requests.
+ * @param dryRun - When true, the comment is only logged, not posted.
+ * @throws If the URL is not a pull request URL or GitHub rejects the comment.
+ */
+export async function upsertPullRequestComment(
+  prUrl: string,
+  body: string,
+  githubToken: string,
+  dryRun = false
+) {
+  const { owner, repo, number } = requirePullRequestUrl(prUrl)
+  const octokit: Octokit = createOctokit(githubToken)
+  const markedBody = `${body}\n\n${pullRequestCommentMarker}`
+
+  const comments = await octokit.paginate(octokit.issues.listComments, {
+    owner,
+    repo,
+    issue_number: number,
+    per_page: 100
+  })
+  const existing = comments.find((comment) =>
+    comment.body?.includes(pullRequestCommentMarker)
   )
 
-  return Array.from(prSet.values())
+  if (existing?.body === markedBody) {
+    core.info(`Release comment on PR ${prUrl} is already up to date.`)
+    return
+  }
+
+  if (dryRun) {
+    core.info(
+      `[dry-run] Would ${existing ? 'update' : 'post'} the release comment on PR ${prUrl}`
+    )
+    return
+  }
+
+  if (existing) {
+    await octokit.issues.updateComment({
+      owner,
+      repo,
+      comment_id: existing.id,
+      body: markedBody
+    })
+    core.info(`Updated the release comment on PR ${prUrl}`)
+  } else {
+    await octokit.issues.createComment({
+      owner,
+      repo,
+      issue_number: number,
+      body: markedBody
+    })
+    core.info(`Posted a release comment on PR ${prUrl}`)
+  }
+}
+
+/**
+ * Adds a label to a pull request. GitHub creates the label if the repository does
+ * not have it yet.
+ *
+ * @param prUrl - The URL of the pull request (e.g., "https://github.com/org/repo/pull/1").
+ * @param labelName - The name of the label (e.g., "released:1.2.3").
+ * @param githubToken - The GitHub token used to authenticate requests.
+ * @param dryRun - When true, the label is only logged, not added.
+ * @throws If the URL is not a pull request URL or GitHub rejects the label.
+ */
+export async function addLabelToPullRequest(
+  prUrl: string,
+  labelName: string,
+  githubToken: string,
+  dryRun = false
+) {
+  const { owner, repo, number } = requirePullRequestUrl(prUrl)
+
+  if (dryRun) {
+    core.info(`[dry-run] Would add label '${labelName}' to PR ${prUrl}`)
+    return
+  }
+
+  const octokit: Octokit = createOctokit(githubToken)
+  await octokit.issues.addLabels({
+    owner,
+    repo,
+    issue_number: number,
+    labels: [labelName]
+  })
+  core.info(`Added label '${labelName}' to PR ${prUrl}`)
+}
+
+/**
+ * Creates a client for the GitHub instance the workflow runs on. On GitHub Enterprise
+ * Server the REST API lives under `/api/v3`, and Octokit derives the GraphQL endpoint
+ * (`/api/graphql`) from it.
+ */
+function createOctokit(githubToken: string) {
+  return new Octokit({ auth: githubToken, baseUrl: github.context.apiUrl })
+}
+
+function parsePullRequestUrl(prUrl: string) {
+  const match = /\/([^/]+)\/([^/]+)\/pull\/(\d+)\/?$/.exec(prUrl)
+  if (!match) {
+    return null
+  }
+
+  return { owner: match[1], repo: match[2], number: Number(match[3]) }
+}
+
+function requirePullRequestUrl(prUrl: string) {
+  const pullRequestRef = parsePullRequestUrl(prUrl)
+  if (!pullRequestRef) {
+    throw new Error(`'${prUrl}' is not a pull request URL.`)
+  }
+
+  return pullRequestRef
 }
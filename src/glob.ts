@@ -0,0 +1,66 @@
+/**
+ * Converts a path glob into a regular expression.
+ *
+ * Supports `**` (any number of directories), `*` (anything but a slash) and `?` (a
+ * single character but a slash). A glob also matches everything below the path it
+ * describes, so `packages/api` and `packages/api/**` are equivalent.
+ *
+ * @param glob - The glob to convert (e.g., "packages/api/**", "*.md").
+ * @returns A regular expression matching repository-relative file paths.
+ */
+export function globToRegExp(glob: string): RegExp {
+  const normalized = glob
+    .trim()
+    .replace(/^\.?\//, '')
+    .replace(/\/+$/, '')
+
+  let pattern = ''
+  for (let i = 0; i < normalized.length; i++) {
+    const char = normalized[i]
+    if (char === '*' && normalized[i + 1] === '*') {
+      // `**/` may also match no directory at all
+      if (normalized[i + 2] === '/') {
+        pattern += '(?:.*/)?'
+        i += 2
+      } else {
+        pattern += '.*'
+        i += 1
+      }
+    } else if (char === '*') {
+      pattern += '[^/]*'
+    } else if (char === '?') {
+      pattern += '[^/]'
+    } else {
+      pattern += char.replace(/[.+^${}()|[\]\\]/g, '\\$&')
+    }
+  }
+
+  return new RegExp(`^${pattern}(?:/.*)?$`)
+}
+
+/**
+ * Returns the path a glob covers when it has no wildcards other than a trailing `**`,
+ * e.g. `packages/api` for `packages/api/**`.
+ *
+ * @param glob - The glob to read (e.g., "packages/api/**").
+ * @returns The repository-relative path, or `null` if the glob has other wildcards or
+ * covers the whole repository.
+ */
+export function getGlobPath(glob: string): string | null {
+  const path = glob
+    .trim()
+    .replace(/^\.?\//, '')
+    .replace(/(?:\/+\*\*)?\/*$/, '')
+
+  return path && !/[*?]/.test(path) ? path : null
+}
+
+/**
+ * Checks whether a file path matches at least one of the given globs.
+ *
+ * @param path - The repository-relative file path.
+ * @param globs - The globs to match against.
+ */
+export function matchesAnyGlob(path: string, globs: string[]): boolean {
+  return globs.some((glob) => globToRegExp(glob).test(path))
+}
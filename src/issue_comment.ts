@@ -0,0 +1,138 @@
+import * as core from '@actions/core'
+import { LinearIssue } from './linear.js'
+import { planMutation } from './dry_run.js'
+import { LinearClient } from './linear_client.js'
+
+export const defaultReleaseCommentTemplate =
+  'Released in [{version}]({release_url}) on {release_date} via {pr_urls}.'
+
+/**
+ * Creates a comment about the release on a Linear issue, unless the issue already has one.
+ *
+ * A comment counts as already posted if it mentions the release URL or has exactly the
+ * same body, so re-running the action for a release does not post it again. The URL
+ * must end where it is mentioned, so that `tag/1.4.0` does not match a comment about
+ * `tag/1.4.0-rc.1`.
+ *
+ * @param linearIssue - The Linear issue to comment on.
+ * @param body - The Markdown body of the comment.
+ * @param releaseUrl - The URL of the GitHub release.
+ * @param linearClient - The client used to talk to the Linear API.
+ * @param dryRun - When true, the comment is only reported, not created.
+ * @returns `true` if the comment was created (or planned), `false` if it already existed.
+ * @throws If Linear does not accept the comment.
+ */
+export async function createReleaseComment(
+  linearIssue: LinearIssue,
+  body: string,
+  releaseUrl: string,
+  linearClient: LinearClient,
+  dryRun = false
+): Promise<boolean> {
+  const existingComments = await fetchCommentBodies(
+    linearIssue.id,
+    linearClient
+  )
+  if (
+    existingComments.some(
+      (comment) =>
+        mentionsReleaseUrl(comment, releaseUrl) ||
+        comment.trim() === body.trim()
+    )
+  ) {
+    core.info(
+      `Issue ${linearIssue.identifier} already has a comment for this release.`
+    )
+    return false
+  }
+
+  if (dryRun) {
+    planMutation({
+      mutation: 'commentCreate',
+      description: `comment on issue ${linearIssue.identifier}`,
+      variables: { issueId: linearIssue.id, body }
+    })
+    return true
+  }
+
+  const createCommentMutation = `
+      mutation CommentCreate($issueId: String!, $body: String!) {
+        commentCreate(input: { issueId: $issueId, body: $body }) {
+          success
+        }
+      }
+    `
+
+  const data = await linearClient.request<{
+    commentCreate: { success: boolean }
+  }>(createCommentMutation, { issueId: linearIssue.id, body })
+  if (!data?.commentCreate?.success) {
+    throw new Error(
+      `Failed to comment on issue ${linearIssue.identifier}: Linear reported no success.`
+    )
+  }
+
+  core.info(`Commented on issue ${linearIssue.identifier}`)
+  return true
+}
+
+/**
+ * Checks whether a text mentions a release URL as a whole, not just as the start of
+ * a longer URL such as the one of a later prerelease.
+ *
+ * @param text - The Markdown text to search.
+ * @param releaseUrl - The URL of the GitHub release.
+ * @returns `true` if the URL is followed by the end of the text, whitespace, a closing
+ * bracket or quote, or punctuation that ends a sentence.
+ */
+export function mentionsReleaseUrl(text: string, releaseUrl: string): boolean {
+  const escapedUrl = releaseUrl.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+  const mention = new RegExp(
+    `${escapedUrl}(?=$|[\\s)\\]>"']|[.,;:!?](?:$|\\s))`
+  )
+  return mention.test(text)
+}
+
+interface IssueCommentsQueryResponse {
+  issue: {
+    comments: {
+      pageInfo: { hasNextPage: boolean; endCursor?: string | null }
+      nodes: { body: string }[]
+    }
+  } | null
+}
+
+async function fetchCommentBodies(
+  issueId: string,
+  linearClient: LinearClient
+): Promise<string[]> {
+  const commentsQuery = `
+      query IssueComments($issueId: String!, $cursor: String) {
+        issue(id: $issueId) {
+          comments(first: 100, after: $cursor) {
+            pageInfo { hasNextPage endCursor }
+            nodes { body }
+          }
+        }
+      }
+    `
+
+  const bodies: string[] = []
+  let cursor: string | undefined
+
+  while (true) {
+    const data = await linearClient.request<IssueCommentsQueryResponse>(
+      commentsQuery,
+      { issueId, cursor }
+    )
+    const comments = data?.issue?.comments
+    bodies.push(...(comments?.nodes || []).map((comment) => comment.body))
+
+    if (!comments?.pageInfo?.hasNextPage || !comments.pageInfo.endCursor) {
+      break
+    }
+    cursor = comments.pageInfo.endCursor
+  }
+
+  return bodies
+}
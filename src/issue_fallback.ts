@@ -0,0 +1,73 @@
+import * as core from '@actions/core'
+import { LinearClient } from './linear_client.js'
+import { LinearIssue } from './linear.js'
+import { getPullRequestDetails } from './github.js'
+import {
+  extractIssueIdentifiers,
+  getLinearIssueByIdentifier
+} from './linear_issue.js'
+
+/**
+ * Finds the Linear issues for a pull request by parsing issue identifiers from the
+ * pull request itself, for PRs that Linear has no attachment for (e.g., PRs opened
+ * before the Linear GitHub integration was installed, or by bots).
+ *
+ * The sources are tried in order of reliability: PR title, head branch name, PR body
+ * and the squash commit message. The first source that mentions an identifier that
+ * exists in Linear wins, and every existing issue it mentions is returned.
+ *
+ * @param prUrl - The URL of the pull request.
+ * @param teamKeys - The accepted team key prefixes. When empty, any key is accepted.
+ * @param githubToken - The GitHub token used to authenticate requests.
+ * @param linearClient - The client used to talk to the Linear API.
+ * @returns The matching Linear issues, or an empty array if no identifier resolved to an issue.
+ */
+export async function findLinearIssuesByPullRequestIdentifiers(
+  prUrl: string,
+  teamKeys: string[],
+  githubToken: string,
+  linearClient: LinearClient
+): Promise<LinearIssue[]> {
+  const details = await getPullRequestDetails(prUrl, githubToken)
+  if (!details) {
+    core.info(`Could not load PR details for identifier fallback: ${prUrl}`)
+    return []
+  }
+
+  const sources: [string, string][] = [
+    ['PR title', details.title],
+    ['branch name', details.headRefName],
+    ['PR body', details.body],
+    ['squash commit message', details.mergeCommitMessage]
+  ]
+
+  const checkedIdentifiers = new Set<string>()
+  for (const [sourceName, text] of sources) {
+    const linearIssues: LinearIssue[] = []
+    for (const identifier of extractIssueIdentifiers(text, teamKeys)) {
+      if (checkedIdentifiers.has(identifier)) {
+        continue
+      }
+      checkedIdentifiers.add(identifier)
+
+      const linearIssue = await getLinearIssueByIdentifier(
+        identifier,
+        linearClient
+      )
+      if (linearIssue) {
+        linearIssues.push(linearIssue)
+      }
+    }
+
+    if (linearIssues.length > 0) {
+      const identifiers = linearIssues.map((issue) => issue.identifier)
+      core.info(
+        `Found Linear issue(s) ${identifiers.join(', ')} for PR: ${prUrl} (matched via ${sourceName})`
+      )
+      return linearIssues
+    }
+  }
+
+  core.info(`No Linear issue identifier found in PR: ${prUrl}`)
+  return []
+}
@@ -0,0 +1,105 @@
+import { LinearIssue } from './linear.js'
+
+/**
+ * Which of the issues linked to a release are updated. Every list is matched
+ * case-insensitively, and an empty list does not filter.
+ */
+export interface IssueFilter {
+  /** Team keys (e.g., "ABC") of which issues are included. */
+  includeTeams: string[]
+  excludeTeams: string[]
+  /** Workflow state types (e.g., "started") of which issues are included. */
+  includeStateTypes: string[]
+  excludeStateTypes: string[]
+  /** Label names of which issues need at least one to be included. */
+  includeLabels: string[]
+  excludeLabels: string[]
+  /** Project names or IDs of which issues are included. */
+  includeProjects: string[]
+  excludeProjects: string[]
+}
+
+/**
+ * Determines why an issue should not be updated for a release.
+ *
+ * An issue is skipped when an include list is set and the issue does not match it,
+ * or when it matches an exclude list. Issues without a team, state or project never
+ * match a list of those.
+ *
+ * @param linearIssue - The Linear issue to check, including its team, state, labels
+ * and project.
+ * @param filter - The include and exclude lists.
+ * @returns The reason for skipping the issue, or `null` if it should be updated.
+ */
+export function getIssueFilterSkipReason(
+  linearIssue: LinearIssue,
+  filter: IssueFilter
+): string | null {
+  const teamKey = linearIssue.team?.key
+  if (
+    filter.includeTeams.length > 0 &&
+    !includes(filter.includeTeams, teamKey)
+  ) {
+    return teamKey
+      ? `team '${teamKey}' is not included`
+      : 'has no team and teams are filtered'
+  }
+  if (includes(filter.excludeTeams, teamKey)) {
+    return `team '${teamKey}' is excluded`
+  }
+
+  const state = linearIssue.state
+  if (
+    filter.includeStateTypes.length > 0 &&
+    !includes(filter.includeStateTypes, state?.type)
+  ) {
+    return state
+      ? `state '${state.name}' (${state.type}) is not included`
+      : 'has no state and state types are filtered'
+  }
+  if (state && includes(filter.excludeStateTypes, state.type)) {
+    return `state '${state.name}' (${state.type}) is excluded`
+  }
+
+  const labelNames = linearIssue.labels.map((label) => label.name)
+  if (
+    filter.includeLabels.length > 0 &&
+    !labelNames.some((name) => includes(filter.includeLabels, name))
+  ) {
+    return `has none of the labels ${filter.includeLabels.map((name) => `'${name}'`).join(', ')}`
+  }
+  const excludedLabel = labelNames.find((name) =>
+    includes(filter.excludeLabels, name)
+  )
+  if (excludedLabel) {
+    return `label '${excludedLabel}' is excluded`
+  }
+
+  const project = linearIssue.project
+  const matchesProject = (projects: string[]) =>
+    !!project &&
+    (includes(projects, project.name) || includes(projects, project.id))
+  if (
+    filter.includeProjects.length > 0 &&
+    !matchesProject(filter.includeProjects)
+  ) {
+    return project
+      ? `project '${project.name}' is not included`
+      : 'has no project and projects are filtered'
+  }
+  if (matchesProject(filter.excludeProjects)) {
+    return `project '${project?.name}' is excluded`
+  }
+
+  return null
+}
+
+/**
+ * Checks whether a filter list contains a value, ignoring case.
+ */
+function includes(list: string[], value: string | undefined) {
+  return (
+    value !== undefined &&
+    list.some((item) => item.toLowerCase() === value.toLowerCase())
+  )
+}
@@ -1,18 +1,48 @@
-import axios from 'axios'
-import { LinearLabel, LinearIssue } from './linear.js'
+import { LinearLabel, LinearIssue, LinearTeam } from './linear.js'
 import * as core from '@actions/core'
+import { planMutation } from './dry_run.js'
+import { LinearClient } from './linear_client.js'
+import { renderTemplate } from './template.js'
+
+export const defaultLabelGroupTemplate = '{repo} releases'
+export const defaultPrereleaseLabelGroupTemplate = '{repo} prereleases'
+export const defaultLabelNameTemplate = '{version} ({repo})'
+
+/**
+ * How release labels are named and where they are created.
+ */
+export interface ReleaseLabelOptions {
+  /**
+   * Template of the label group name; supports `{repo}` and `{version}`, which gives
+   * every release a group of its own.
+   */
+  groupTemplate?: string
+  /** Template of the label group name for prereleases; supports the same placeholders. */
+  prereleaseGroupTemplate?: string
+  /** Template of the release label name; supports `{version}` and `{repo}`. */
+  nameTemplate?: string
+  /** The color of newly created labels (e.g., "#5e6ad2"); Linear picks one if empty. */
+  color?: string
+  /** The team to create the labels in; they are workspace labels if not set. */
+  team?: LinearTeam
+}
 
 /**
  * Ensures that a release label exists in Linear for a given repository and version.
  *
- * This function checks if a parent label group (named `${repoName} releases`) exists in Linear.
+ * This function checks if a parent label group (named `${repoName} releases`, or
+ * `${repoName} prereleases` for prereleases, unless configured otherwise) exists in
+ * Linear, in the given team or at the workspace level.
  * If not, it creates the parent label group. Then, it ensures that a child label for the specific
  * release version exists under the parent group, creating it if necessary.
  *
  * @param versionName - The release version name (e.g., "1.2.3").
  * @param repoName - The name of the repository.
- * @param linearApiUrl - The Linear API endpoint URL.
- * @param linearApiKey - The Linear API key for authentication.
+ * @param linearClient - The client used to talk to the Linear API.
+ * @param dryRun - When true, missing labels are only reported and a placeholder label is returned.
+ * @param prerelease - Whether the release is a prerelease. Prerelease labels live in their own
+ * group so that they never replace, or get replaced by, the label of a final release.
+ * @param options - How the labels are named and where they are created.
  * @returns The created or found LinearLabel object.
  *
  * @throws If the parent label group or child label cannot be created in Linear.
@@ -20,69 +50,217 @@ import * as core from '@actions/core'
 export async function ensureReleaseLabel(
   versionName: string,
   repoName: string,
-  linearApiUrl: string,
-  linearApiKey: string
+  linearClient: LinearClient,
+  dryRun = false,
+  prerelease = false,
+  options: ReleaseLabelOptions = {}
 ): Promise<LinearLabel> {
-  const parentName = `${repoName} releases`
-
-  let parentId = await fetchParentIdByName(
-    parentName,
-    linearApiUrl,
-    linearApiKey
+  const { parentName, labelName } = getReleaseLabelNames(
+    versionName,
+    repoName,
+    prerelease,
+    options
   )
+  const teamId = options.team?.id || null
 
-  if (!parentId) {
+  let parentId = await fetchParentIdByName(parentName, teamId, linearClient)
+
+  if (!parentId && dryRun) {
+    planMutation({
+      mutation: 'issueLabelCreate',
+      description: `create label group '${parentName}'`,
+      variables: { name: parentName, isGroup: true, teamId }
+    })
+    parentId = `dry-run:${parentName}`
+  } else if (!parentId) {
     parentId = await createParentLabelGroup(
       parentName,
-      linearApiUrl,
-      linearApiKey
+      teamId,
+      options.color || null,
+      linearClient
     )
   }
 
-  return await ensureLabelGroupAndChild(
-    versionName,
+  const label = await ensureLabelGroupAndChild(
+    labelName,
     parentId,
     parentName,
-    repoName,
-    linearApiUrl,
-    linearApiKey
+    teamId,
+    options.color || null,
+    linearClient,
+    dryRun
   )
+  return { ...label, team: options.team || null }
+}
+
+/**
+ * Looks up the existing release labels of a version, without creating anything.
+ *
+ * Both the release and the prerelease label groups are searched, since the GitHub
+ * release (and with it the prerelease flag) may no longer exist.
+ *
+ * @param versionName - The release version name (e.g., "1.2.3").
+ * @param repoName - The name of the repository.
+ * @param linearClient - The client used to talk to the Linear API.
+ * @param options - How the labels are named and where they were created.
+ * @returns The release labels found, at most one per group.
+ */
+export async function findReleaseLabels(
+  versionName: string,
+  repoName: string,
+  linearClient: LinearClient,
+  options: ReleaseLabelOptions = {}
+): Promise<LinearLabel[]> {
+  const labels: LinearLabel[] = []
+  const teamId = options.team?.id || null
+
+  for (const prerelease of [false, true]) {
+    const { parentName, labelName } = getReleaseLabelNames(
+      versionName,
+      repoName,
+      prerelease,
+      options
+    )
+    const parentId = await fetchParentIdByName(parentName, teamId, linearClient)
+    const label = parentId
+      ? await fetchChildLabel(labelName, parentId, linearClient)
+      : null
+    if (label) {
+      labels.push({ ...label, team: options.team || null })
+    }
+  }
+
+  return labels
+}
+
+/**
+ * Resolves Linear teams by their keys (e.g., "ENG").
+ *
+ * @param teamKeys - The keys of the teams.
+ * @param linearClient - The client used to talk to the Linear API.
+ * @returns The teams, in the order of the keys.
+ * @throws If a team key does not exist in Linear.
+ */
+export async function resolveTeamsByKey(
+  teamKeys: string[],
+  linearClient: LinearClient
+): Promise<LinearTeam[]> {
+  const teamsQuery = `
+      query TeamsByKey($keys: [String!]!) {
+        teams(filter: { key: { in: $keys } }) {
+          nodes { id key name }
+        }
+      }
+    `
+
+  const data = await linearClient.request<{
+    teams: { nodes: LinearTeam[] }
+  }>(teamsQuery, { keys: teamKeys })
+  const teams = data?.teams?.nodes || []
+
+  return teamKeys.map((key) => {
+    const team = teams.find((t) => t.key.toUpperCase() === key.toUpperCase())
+    if (!team) {
+      throw new Error(`Linear team '${key}' does not exist.`)
+    }
+    return team
+  })
+}
+
+/**
+ * Returns the repository name used in label names. A monorepo component gets its own
+ * name, e.g. `repo/api` for the tag prefix `api-v`, with the separators that precede
+ * the version left out.
+ *
+ * @param repoName - The name of the repository.
+ * @param tagPrefix - The tag prefix of the component (e.g., "api-", "api-v", "api@").
+ * @returns The repository name, followed by the component if there is one.
+ */
+export function getLabelRepoName(repoName: string, tagPrefix: string) {
+  const component = tagPrefix.replace(/(?:^|[-_/@.]+)v?[-_/@.]*$/, '')
+  return component ? `${repoName}/${component}` : repoName
+}
+
+/**
+ * Returns patterns that match the names of the release and prerelease label groups of
+ * a repository, for every version when the group templates contain `{version}`.
+ *
+ * @param repoName - The name of the repository.
+ * @param options - How the labels are named.
+ * @returns One pattern per label group template.
+ */
+export function getReleaseLabelGroupPatterns(
+  repoName: string,
+  options: ReleaseLabelOptions = {}
+): RegExp[] {
+  return [
+    options.groupTemplate || defaultLabelGroupTemplate,
+    options.prereleaseGroupTemplate || defaultPrereleaseLabelGroupTemplate
+  ].map((groupTemplate) => getLabelNamePattern(groupTemplate, repoName))
+}
+
+/**
+ * Turns a label or label group name template into a regular expression that captures
+ * the version of a name.
+ */
+export function getLabelNamePattern(nameTemplate: string, repoName: string) {
+  const escape = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+  const pattern = nameTemplate
+    .split(/(\{version\}|\{repo\})/)
+    .map((part) =>
+      part === '{version}'
+        ? '(.+)'
+        : escape(part === '{repo}' ? repoName : part)
+    )
+    .join('')
+
+  return new RegExp(`^${pattern}$`)
+}
+
+function getReleaseLabelNames(
+  versionName: string,
+  repoName: string,
+  prerelease: boolean,
+  options: ReleaseLabelOptions
+) {
+  const groupTemplate = prerelease
+    ? options.prereleaseGroupTemplate || defaultPrereleaseLabelGroupTemplate
+    : options.groupTemplate || defaultLabelGroupTemplate
+  const values = { version: versionName, repo: repoName }
+
+  return {
+    parentName: renderTemplate(groupTemplate, values),
+    labelName: renderTemplate(
+      options.nameTemplate || defaultLabelNameTemplate,
+      values
+    )
+  }
 }
 
 async function createParentLabelGroup(
   parentName: string,
-  linearApiUrl: string,
-  linearApiKey: string
+  teamId: string | null,
+  color: string | null,
+  linearClient: LinearClient
 ) {
   core.info(`Creating parent label group '${parentName}' in Linear...`)
 
   const createParentMutation = `
-          mutation CreateParent($name: String!) {
-            issueLabelCreate(input: { name: $name, isGroup: true }) {
+          mutation CreateParent($name: String!, $teamId: String, $color: String) {
+            issueLabelCreate(input: { name: $name, isGroup: true, teamId: $teamId, color: $color }) {
               success
               issueLabel { id name }
             }
           }
         `
 
-  const createParentResp = await axios.post<{
-    data: {
-      issueLabelCreate: {
-        success: boolean
-        issueLabel: { id: string; name: string }
-      }
+  const createParentResp = await linearClient.request<{
+    issueLabelCreate: {
+      success: boolean
+      issueLabel: { id: string; name: string }
     }
-  }>(
-    linearApiUrl,
-    { query: createParentMutation, variables: { name: parentName } },
-    {
-      headers: {
-        'Content-Type': 'application/json',
-        Authorization: linearApiKey
-      }
-    }
-  )
-  const payload = createParentResp?.data?.data?.issueLabelCreate
+  }>(createParentMutation, { name: parentName, teamId, color })
+  const payload = createParentResp?.issueLabelCreate
   if (payload && payload.success) {
     core.info(
       `Created parent label group '${parentName}' with ID ${payload.issueLabel.id}`
@@ -90,43 +268,39 @@ async function createParentLabelGroup(
     return payload.issueLabel.id
   } else {
     throw new Error(
-      'Failed to create parent label group in Linear:' + createParentResp.data
+      `Failed to create parent label group '${parentName}' in Linear: Linear reported no success.`
     )
   }
 }
 
 async function fetchParentIdByName(
   parentName: string,
-  linearApiUrl: string,
-  linearApiKey: string
+  teamId: string | null,
+  linearClient: LinearClient
 ) {
   core.info(`Looking for parent label group '${parentName}' in Linear...`)
 
+  // Team labels and workspace labels may share a name, so only the requested scope
+  // is searched
   const findParentQuery = `
-      query FindParent($name: String!) {
-        issueLabels(filter: { name: { eq: $name } }) {
+      query FindParent($filter: IssueLabelFilter!) {
+        issueLabels(filter: $filter) {
           nodes { id name }
         }
       }
     `
   let parentId = null
-  const findParentResp = await axios.post<{
-    data: {
-      issueLabels: {
-        nodes: Array<{ id: string; name: string }>
-      }
+  const findParentResp = await linearClient.request<{
+    issueLabels: {
+      nodes: Array<{ id: string; name: string }>
     }
-  }>(
-    linearApiUrl,
-    { query: findParentQuery, variables: { name: parentName } },
-    {
-      headers: {
-        'Content-Type': 'application/json',
-        Authorization: linearApiKey
-      }
+  }>(findParentQuery, {
+    filter: {
+      name: { eq: parentName },
+      team: teamId ? { id: { eq: teamId } } : { null: true }
     }
-  )
-  const nodes = findParentResp?.data?.data?.issueLabels?.nodes || []
+  })
+  const nodes = findParentResp?.issueLabels?.nodes || []
   if (nodes.length > 0) {
     parentId = nodes[0].id
     core.info(
@@ -140,45 +314,54 @@ async function fetchParentIdByName(
 }
 
 /**
- * Ensures that a child label with the specified version and repository exists under the given parent label group in Linear.
+ * Ensures that a child label with the given name exists under the given parent label group in Linear.
  * If the child label does not exist, it creates it using the Linear API.
  *
- * @param cleanVersion - The cleaned version string to use for the label name.
+ * @param labelName - The name of the release label.
  * @param parentId - The ID of the parent label group.
  * @param parentName - The name of the parent label group.
- * @param repoName - The name of the repository (optional, appended to the label name).
- * @param linearApiUrl - The Linear API endpoint URL.
- * @param linearApiKey - The Linear API key for authentication.
+ * @param teamId - The ID of the team to create the label in, or `null` for a workspace label.
+ * @param color - The color of a newly created label, or `null` to let Linear pick one.
+ * @param linearClient - The client used to talk to the Linear API.
+ * @param dryRun - When true, a missing child label is only reported and a placeholder is returned.
  * @returns The created or found Linear label object.
  * @throws If the child label cannot be created.
  */
 async function ensureLabelGroupAndChild(
-  cleanVersion: string,
+  labelName: string,
   parentId: string,
   parentName: string,
-  repoName: string,
-  linearApiUrl: string,
-  linearApiKey: string
+  teamId: string | null,
+  color: string | null,
+  linearClient: LinearClient,
+  dryRun: boolean
 ): Promise<LinearLabel> {
-  const versionWithRepo = `${cleanVersion} (${repoName})`
-
-  const label = await fetchChildLabel(
-    versionWithRepo,
-    parentId,
-    linearApiUrl,
-    linearApiKey
-  )
+  const label = await fetchChildLabel(labelName, parentId, linearClient)
 
   if (label) {
     return label
   }
 
+  if (dryRun) {
+    planMutation({
+      mutation: 'issueLabelCreate',
+      description: `create label '${labelName}' in group '${parentName}'`,
+      variables: { name: labelName, parentId, teamId }
+    })
+    return {
+      id: `dry-run:${labelName}`,
+      name: labelName,
+      parent: { id: parentId, name: parentName }
+    }
+  }
+
   return createChildLabel(
-    versionWithRepo,
+    labelName,
     parentId,
     parentName,
-    linearApiUrl,
-    linearApiKey
+    teamId,
+    color,
+    linearClient
   )
 }
 
@@ -186,50 +369,37 @@ async function createChildLabel(
   labelName: string,
   parentId: string,
   parentName: string,
-  linearApiUrl: string,
-  linearApiKey: string
+  teamId: string | null,
+  color: string | null,
+  linearClient: LinearClient
 ) {
   core.info(
     `Creating child label '${labelName}' under parent ID ${parentId} in Linear...`
   )
 
   const createChildMutation = `
-      mutation CreateChild($name: String!, $parentId: String!) {
-        issueLabelCreate(input: { name: $name, parentId: $parentId }) {
+      mutation CreateChild($name: String!, $parentId: String!, $teamId: String, $color: String) {
+        issueLabelCreate(input: { name: $name, parentId: $parentId, teamId: $teamId, color: $color }) {
           success
           issueLabel { id name parent { id name } }
         }
       }
     `
 
-  const createChildResp = await axios.post<{
-    data: {
-      issueLabelCreate: {
-        success: boolean
-        issueLabel: {
-          id: string
-          name: string
-          parent?: { id: string; name: string }
-        }
+  const createChildResp = await linearClient.request<{
+    issueLabelCreate: {
+      success: boolean
+      issueLabel: {
+        id: string
+        name: string
+        parent?: { id: string; name: string }
       }
     }
-  }>(
-    linearApiUrl,
-    {
-      query: createChildMutation,
-      variables: { name: labelName, parentId }
-    },
-    {
-      headers: {
-        'Content-Type': 'application/json',
-        Authorization: linearApiKey
-      }
-    }
-  )
-  const payload = createChildResp?.data?.data?.issueLabelCreate
+  }>(createChildMutation, { name: labelName, parentId, teamId, color })
+  const payload = createChildResp?.issueLabelCreate
   if (!payload || !payload.success) {
     throw new Error(
-      'Failed to create child Linear label:' + String(createChildResp.data)
+      `Failed to create child Linear label '${labelName}': Linear reported no success.`
     )
   }
 
@@ -244,8 +414,7 @@ async function createChildLabel(
 async function fetchChildLabel(
   labelName: string,
   parentId: string,
-  linearApiUrl: string,
-  linearApiKey: string
+  linearClient: LinearClient
 ): Promise<LinearLabel | null> {
   core.info(
     `Looking for child label '${labelName}' under parent ID ${parentId} in Linear...`
@@ -259,27 +428,16 @@ async function fetchChildLabel(
       }
     `
 
-  const findChildResp = await axios.post<{
-    data: {
-      issueLabels: {
-        nodes: Array<{
-          id: string
-          name: string
-          parent?: { id: string; name: string }
-        }>
-      }
-    }
-  }>(
-    linearApiUrl,
-    { query: findChildQuery, variables: { name: labelName } },
-    {
-      headers: {
-        'Content-Type': 'application/json',
-        Authorization: linearApiKey
-      }
+  const findChildResp = await linearClient.request<{
+    issueLabels: {
+      nodes: Array<{
+        id: string
+        name: string
+        parent?: { id: string; name: string }
+      }>
     }
-  )
-  const nodes = findChildResp?.data?.data?.issueLabels?.nodes || []
+  }>(findChildQuery, { name: labelName })
+  const nodes = findChildResp?.issueLabels?.nodes || []
   const match = nodes.find((n) => n?.parent?.id === parentId)
   if (match) {
     core.info(`Found existing label '${labelName}' with ID ${match.id}`)
@@ -292,21 +450,46 @@ async function fetchChildLabel(
   return null
 }
 
+/**
+ * Finds a label of the issue that is in the same group as the release label, other
+ * than the release label itself.
+ *
+ * @param linearIssue - The Linear issue to check.
+ * @param releaseLabel - The release label whose group is checked.
+ * @returns The label found, or `undefined` if the issue has none from that group.
+ */
+export function findOtherLabelInGroup(
+  linearIssue: LinearIssue,
+  releaseLabel: LinearLabel
+): LinearLabel | undefined {
+  const parentId = releaseLabel.parent?.id
+  if (!parentId) {
+    return undefined
+  }
+
+  return (linearIssue.labels || []).find(
+    (label) => label.parent?.id === parentId && label.id !== releaseLabel.id
+  )
+}
+
 /**
  * Adds a label to a Linear issue, ensuring exclusivity within the label's parent group.
  * If the label already exists on the issue, no update is performed.
- * If the label has a parent, any existing label from the same parent group is replaced.
+ * If the label has a parent, any existing label from the same parent group is replaced,
+ * unless `exclusive` is false.
  *
  * @param linearIssue - The Linear issue to update.
  * @param releaseLabel - The label to attach to the issue.
- * @param linearApiUrl - The Linear API endpoint URL.
- * @param linearApiKey - The Linear API authentication key.
+ * @param linearClient - The client used to talk to the Linear API.
+ * @param dryRun - When true, the label update is only reported, not sent.
+ * @param exclusive - When false, other labels of the same group are kept.
  */
 export async function addLabelToIssue(
   linearIssue: LinearIssue,
   releaseLabel: LinearLabel,
-  linearApiUrl: string,
-  linearApiKey: string
+  linearClient: LinearClient,
+  dryRun = false,
+  exclusive = true
 ) {
   core.info(
     `Attaching label '${releaseLabel.name}' to issue '${linearIssue.identifier}'...`
@@ -322,7 +505,7 @@ export async function addLabelToIssue(
   const targetParentId = releaseLabel?.parent?.id || null
 
   let newIds
-  if (!targetParentId) {
+  if (!targetParentId || !exclusive) {
     // If parent not provided, fallback to append-only behaviour
     newIds = [...currentIds, labelId]
   } else {
@@ -333,6 +516,15 @@ export async function addLabelToIssue(
     newIds = [...filtered, labelId]
   }
 
+  if (dryRun) {
+    planMutation({
+      mutation: 'issueUpdate',
+      description: `set labels of issue ${linearIssue.identifier} to include '${releaseLabel.name}'`,
+      variables: { issueId: linearIssue.id, labelIds: newIds }
+    })
+    return true
+  }
+
   const updateMutation = `
         mutation UpdateIssueLabels($issueId: String!, $labelIds: [String!]) {
           issueUpdate(id: $issueId, input: { labelIds: $labelIds }) {
@@ -340,33 +532,118 @@ export async function addLabelToIssue(
           }
         }
       `
-  const updateResp = await axios.post<{
-    data: {
-      issueUpdate: {
-        success: boolean
-      }
-    }
-  }>(
-    linearApiUrl,
-    {
-      query: updateMutation,
-      variables: { issueId: linearIssue.id, labelIds: newIds }
-    },
-    {
-      headers: {
-        'Content-Type': 'application/json',
-        Authorization: linearApiKey
-      }
+  const updateResp = await linearClient.request<{
+    issueUpdate: {
+      success: boolean
     }
-  )
-  const ok = updateResp?.data?.data?.issueUpdate?.success === true
+  }>(updateMutation, { issueId: linearIssue.id, labelIds: newIds })
+  const ok = updateResp?.issueUpdate?.success === true
   if (ok) {
     core.info(
       `Label ${releaseLabel.name} successfully added to issue ${linearIssue.identifier}`
     )
   } else {
-    core.info('Failed to update labels on the issue:' + updateResp.data)
+    core.info(
+      `Failed to update labels on issue ${linearIssue.identifier}: Linear reported no success.`
+    )
   }
 
   return ok
 }
+
+/**
+ * A label of a label group, with the time it was created.
+ */
+export interface LabelGroupChild {
+  id: string
+  name: string
+  createdAt: string
+}
+
+/**
+ * Lists the labels of a label group.
+ *
+ * @param parentId - The ID of the label group.
+ * @param linearClient - The client used to talk to the Linear API.
+ * @returns The labels of the group.
+ */
+export async function fetchLabelGroupChildren(
+  parentId: string,
+  linearClient: LinearClient
+): Promise<LabelGroupChild[]> {
+  const graphqlQuery = `
+    query GetLabelGroupChildren($parentId: String!, $cursor: String) {
+      issueLabel(id: $parentId) {
+        children(first: 250, after: $cursor) {
+          pageInfo { hasNextPage endCursor }
+          nodes { id name createdAt }
+        }
+      }
+    }
+  `
+
+  const children: LabelGroupChild[] = []
+  let cursor: string | undefined
+
+  while (true) {
+    const data = await linearClient.request<{
+      issueLabel?: {
+        children?: {
+          pageInfo?: { hasNextPage?: boolean; endCursor?: string | null }
+          nodes: LabelGroupChild[]
+        }
+      } | null
+    }>(graphqlQuery, { parentId, cursor })
+    children.push(...(data?.issueLabel?.children?.nodes || []))
+
+    const pageInfo = data?.issueLabel?.children?.pageInfo
+    if (!pageInfo?.hasNextPage || !pageInfo.endCursor) {
+      break
+    }
+    cursor = pageInfo.endCursor
+  }
+
+  return children
+}
+
+/**
+ * Archives a release label, which hides it from Linear's label picker.
+ *
+ * @param releaseLabel - The label to archive.
+ * @param linearClient - The client used to talk to the Linear API.
+ * @param dryRun - When true, the archival is only reported, not sent.
+ * @throws If Linear does not archive the label.
+ */
+export async function archiveReleaseLabel(
+  releaseLabel: LinearLabel,
+  linearClient: LinearClient,
+  dryRun = false
+) {
+  if (dryRun) {
+    planMutation({
+      mutation: 'issueLabelArchive',
+      description: `archive label '${releaseLabel.name}'`,
+      variables: { id: releaseLabel.id }
+    })
+    return
+  }
+
+  const archiveMutation = `
+      mutation IssueLabelArchive($id: String!) {
+        issueLabelArchive(id: $id) {
+          success
+        }
+      }
+    `
+
+  const data = await linearClient.request<{
+    issueLabelArchive: { success: boolean }
+  }>(archiveMutation, { id: releaseLabel.id })
+  if (!data?.issueLabelArchive?.success) {
+    throw new Error(
+      `Failed to archive label '${releaseLabel.name}': Linear reported no success.`
+    )
+  }
+
+  core.info(`Archived label '${releaseLabel.name}'`)
+}
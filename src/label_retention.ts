@@ -0,0 +1,136 @@
+import * as core from '@actions/core'
+import { LinearClient } from './linear_client.js'
+import { FailureReport } from './summary.js'
+import { compareVersions, parseVersion, stripTagPrefix } from './semver.js'
+import {
+  archiveReleaseLabel,
+  fetchLabelGroupChildren,
+  LabelGroupChild
+} from './label_attach.js'
+
+export interface LabelRetentionOptions {
+  /** How many of the newest labels of the group are kept; 0 keeps all. */
+  keepCount: number
+  /** Labels created more than this many days ago are archived; 0 keeps all. */
+  maxAgeDays: number
+  /** Whether labels that are still on open issues may be archived. */
+  includeOpenIssues: boolean
+  /** Captures the release tag of a label name; see `getLabelNamePattern`. */
+  namePattern: RegExp
+  /** The tag prefix of a monorepo component, removed before the version is parsed. */
+  tagPrefix: string
+}
+
+/**
+ * Archives the stale release labels of a label group.
+ *
+ * A label is stale if it is not among the `keepCount` newest labels of the group, or if
+ * it was created more than `maxAgeDays` ago. Labels are ordered by the semantic version
+ * in their name, so a backfill or a patch of an older release line, which creates its
+ * label late, does not push out the labels of newer releases. Labels without a version
+ * count as older than those with one and are ordered by creation date. The labels of
+ * the current release
+ * are never archived, and neither are labels of issues that are still open (not
+ * completed or canceled) unless `includeOpenIssues` is set. Failures are logged
+ * and reported without interrupting the other labels.
+ *
+ * @param parentId - The ID of the release label group.
+ * @param currentLabelIds - The IDs of the labels of the current release.
+ * @param options - Which labels to keep.
+ * @param linearClient - The client used to talk to the Linear API.
+ * @param dryRun - When true, the labels are only reported, not archived.
+ * @returns The names of the labels that were archived (or would be, in dry-run mode)
+ * and the failed archivals.
+ * @throws If the labels of the group cannot be listed.
+ */
+export async function archiveStaleReleaseLabels(
+  parentId: string,
+  currentLabelIds: string[],
+  options: LabelRetentionOptions,
+  linearClient: LinearClient,
+  dryRun = false
+): Promise<{ archivedLabels: string[]; failures: FailureReport[] }> {
+  const children = await fetchLabelGroupChildren(parentId, linearClient)
+  const versions = new Map(
+    children.map((label) => {
+      const tag = options.namePattern.exec(label.name)?.[1]
+      return [
+        label.id,
+        tag ? parseVersion(stripTagPrefix(tag, options.tagPrefix)) : null
+      ]
+    })
+  )
+  const newestFirst = [...children].sort((a, b) => {
+    const versionA = versions.get(a.id)
+    const versionB = versions.get(b.id)
+    if (versionA && versionB) {
+      return compareVersions(versionB, versionA)
+    }
+    if (versionA || versionB) {
+      return versionA ? -1 : 1
+    }
+    return a.createdAt > b.createdAt ? -1 : 1
+  })
+  const cutoff = Date.now() - options.maxAgeDays * 24 * 60 * 60 * 1000
+
+  const staleLabels = newestFirst.filter(
+    (label, index) =>
+      !currentLabelIds.includes(label.id) &&
+      ((options.keepCount > 0 && index >= options.keepCount) ||
+        (options.maxAgeDays > 0 && Date.parse(label.createdAt) < cutoff))
+  )
+
+  const archivedLabels: string[] = []
+  const failures: FailureReport[] = []
+  for (const label of staleLabels) {
+    try {
+      if (
+        !options.includeOpenIssues &&
+        (await hasOpenIssues(label, linearClient))
+      ) {
+        core.info(`Keeping label '${label.name}': it is on open issues.`)
+        continue
+      }
+
+      await archiveReleaseLabel(label, linearClient, dryRun)
+      archivedLabels.push(label.name)
+    } catch (error) {
+      // Process won't be interrupted to let other labels to be archived
+      core.info(`Failed to archive label '${label.name}'.`)
+      core.info(String(error))
+      failures.push({
+        subject: `Label retention of '${label.name}'`,
+        error: String(error)
+      })
+    }
+  }
+
+  core.info(
+    `Archived ${archivedLabels.length} of ${children.length} release label(s) in group ${parentId}: ${archivedLabels.join(', ') || 'none'}`
+  )
+  return { archivedLabels, failures }
+}
+
+async function hasOpenIssues(
+  label: LabelGroupChild,
+  linearClient: LinearClient
+) {
+  const openIssuesQuery = `
+    query OpenIssuesWithLabel($labelId: ID!) {
+      issues(
+        filter: {
+          labels: { id: { eq: $labelId } }
+          state: { type: { nin: ["completed", "canceled"] } }
+        }
+        first: 1
+      ) {
+        nodes { id }
+      }
+    }
+  `
+
+  const data = await linearClient.request<{
+    issues?: { nodes: { id: string }[] }
+  }>(openIssuesQuery, { labelId: label.id })
+  return (data?.issues?.nodes || []).length > 0
+}
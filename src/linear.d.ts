@@ -2,11 +2,38 @@ export interface LinearIssue {
   id: string
   identifier: string
   title: string
+  /** The link to the issue in Linear. */
+  url?: string
   labels: LinearLabel[]
+  state?: LinearWorkflowState | null
+  team?: LinearTeam | null
+  project?: LinearProject | null
+  /** The parent issue, if this is a sub-issue. */
+  parent?: { id: string } | null
 }
 
 export interface LinearLabel {
   id: string
   name: string
   parent?: { id: string; name: string } | null
+  /** The team the label belongs to; workspace labels have none. */
+  team?: LinearTeam | null
+}
+
+export interface LinearTeam {
+  id: string
+  key: string
+  name: string
+}
+
+export interface LinearProject {
+  id: string
+  name: string
+}
+
+export interface LinearWorkflowState {
+  id: string
+  name: string
+  type: string
+  position: number
 }
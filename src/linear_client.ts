@@ -0,0 +1,227 @@
+import axios, { AxiosResponse } from 'axios'
+import * as core from '@actions/core'
+
+export const defaultLinearApiUrl = 'https://api.linear.app/graphql'
+
+export interface LinearClientOptions {
+  /** The Linear GraphQL endpoint. Override it to run against a proxy or a stub. */
+  apiUrl?: string
+  apiKey: string
+  /** How often a rate-limited or failed request is retried before giving up. */
+  maxRetries?: number
+  /** The delay before the first retry; it doubles with every further attempt. */
+  baseDelayMs?: number
+}
+
+export interface LinearGraphQLErrorDetail {
+  message: string
+  path?: (string | number)[]
+  extensions?: { code?: string; [key: string]: unknown }
+}
+
+/**
+ * Thrown when Linear answers a request with GraphQL errors.
+ */
+export class LinearGraphQLError extends Error {
+  readonly operationName: string
+  readonly errors: LinearGraphQLErrorDetail[]
+
+  constructor(operationName: string, errors: LinearGraphQLErrorDetail[]) {
+    super(
+      `Linear ${operationName} failed: ${errors.map((e) => e.message).join('; ')}`
+    )
+    this.name = 'LinearGraphQLError'
+    this.operationName = operationName
+    this.errors = errors
+  }
+}
+
+/**
+ * Thrown when a request to Linear fails at the HTTP level and retrying did not help.
+ */
+export class LinearHttpError extends Error {
+  readonly operationName: string
+  readonly status?: number
+
+  constructor(
+    operationName: string,
+    status: number | undefined,
+    detail: string
+  ) {
+    super(
+      `Linear ${operationName} failed${status ? ` with HTTP ${status}` : ''}: ${detail}`
+    )
+    this.name = 'LinearHttpError'
+    this.operationName = operationName
+    this.status = status
+  }
+}
+
+interface GraphQLResponseBody<T> {
+  data?: T | null
+  errors?: LinearGraphQLErrorDetail[]
+}
+
+const maxRetryDelayMs = 60_000
+
+/**
+ * A minimal client for Linear's GraphQL API.
+ *
+ * Requests that are rate limited (HTTP 429 or a `RATELIMITED` GraphQL error) are
+ * retried with exponential backoff. Queries are also retried when they fail with a 5xx
+ * status or on the network; mutations are not, because Linear may have applied them
+ * already and running them again could, for example, post a comment twice. When Linear
+ * reports through its rate-limit headers that the request budget is used up, further
+ * requests wait until the budget resets.
+ */
+export class LinearClient {
+  private readonly apiUrl: string
+  private readonly apiKey: string
+  private readonly maxRetries: number
+  private readonly baseDelayMs: number
+  private rateLimitResetAt = 0
+
+  constructor(options: LinearClientOptions) {
+    this.apiUrl = options.apiUrl || defaultLinearApiUrl
+    this.apiKey = options.apiKey
+    this.maxRetries = options.maxRetries ?? 4
+    this.baseDelayMs = options.baseDelayMs ?? 1_000
+  }
+
+  /**
+   * Sends a GraphQL query or mutation to Linear.
+   *
+   * @param query - The GraphQL document; its operation name is used in errors and logs.
+   * @param variables - The variables for the operation.
+   * @returns The `data` of the response.
+   * @throws {LinearGraphQLError} If Linear answers with GraphQL errors.
+   * @throws {LinearHttpError} If the request keeps failing after all retries.
+   */
+  async request<T>(
+    query: string,
+    variables: Record<string, unknown> = {}
+  ): Promise<T> {
+    const operationName = getOperationName(query)
+    const retriesFailures = !isMutation(query)
+
+    for (let attempt = 0; ; attempt++) {
+      await this.waitForRateLimitReset(operationName)
+
+      let response: AxiosResponse<GraphQLResponseBody<T>>
+      try {
+        response = await axios.post<GraphQLResponseBody<T>>(
+          this.apiUrl,
+          { query, variables },
+          {
+            headers: {
+              'Content-Type': 'application/json',
+              Authorization: this.apiKey
+            },
+            validateStatus: () => true
+          }
+        )
+      } catch (error) {
+        if (retriesFailures && attempt < this.maxRetries) {
+          await this.backOff(operationName, attempt, String(error))
+          continue
+        }
+        throw new LinearHttpError(operationName, undefined, String(error))
+      }
+
+      this.trackRateLimit(response)
+
+      const errors = response.data?.errors || []
+      const rateLimited =
+        response.status === 429 ||
+        errors.some((e) => e.extensions?.code === 'RATELIMITED')
+      if (
+        (rateLimited || (retriesFailures && response.status >= 500)) &&
+        attempt < this.maxRetries
+      ) {
+        await this.backOff(
+          operationName,
+          attempt,
+          rateLimited ? 'rate limited' : `HTTP ${response.status}`,
+          getRetryAfterMs(response)
+        )
+        continue
+      }
+
+      if (errors.length > 0) {
+        throw new LinearGraphQLError(operationName, errors)
+      }
+
+      if (response.status < 200 || response.status >= 300 || !response.data) {
+        throw new LinearHttpError(
+          operationName,
+          response.status,
+          JSON.stringify(response.data)
+        )
+      }
+
+      return response.data.data as T
+    }
+  }
+
+  private trackRateLimit(response: AxiosResponse) {
+    const remaining = Number(
+      response.headers?.['x-ratelimit-requests-remaining']
+    )
+    const resetAt = Number(response.headers?.['x-ratelimit-requests-reset'])
+    if (remaining === 0 && resetAt > Date.now()) {
+      this.rateLimitResetAt = resetAt
+    }
+  }
+
+  private async waitForRateLimitReset(operationName: string) {
+    const waitMs = Math.min(this.rateLimitResetAt - Date.now(), maxRetryDelayMs)
+    if (waitMs > 0) {
+      core.info(
+        `Linear request budget used up; waiting ${Math.ceil(waitMs / 1000)}s before ${operationName}...`
+      )
+      await sleep(waitMs)
+    }
+  }
+
+  private async backOff(
+    operationName: string,
+    attempt: number,
+    reason: string,
+    retryAfterMs?: number
+  ) {
+    const delayMs = Math.min(
+      retryAfterMs ?? this.baseDelayMs * 2 ** attempt,
+      maxRetryDelayMs
+    )
+    core.info(
+      `Linear ${operationName} failed (${reason}); retrying in ${Math.ceil(delayMs / 1000)}s (attempt ${attempt + 1} of ${this.maxRetries})...`
+    )
+    await sleep(delayMs)
+  }
+}
+
+function getOperationName(query: string) {
+  return /\b(?:query|mutation)\s+(\w+)/.exec(query)?.[1] || 'request'
+}
+
+function isMutation(query: string) {
+  return /^\s*mutation\b/.test(query)
+}
+
+function getRetryAfterMs(response: AxiosResponse): number | undefined {
+  const retryAfter = Number(response.headers?.['retry-after'])
+  if (retryAfter > 0) {
+    return retryAfter * 1000
+  }
+
+  const resetAt = Number(response.headers?.['x-ratelimit-requests-reset'])
+  if (resetAt > Date.now()) {
+    return resetAt - Date.now()
+  }
+
+  return undefined
+}
+
+function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms))
+}
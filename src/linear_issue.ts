@@ -1,77 +1,313 @@
-/* eslint-disable @typescript-eslint/no-explicit-any */
-import axios from 'axios'
-import { LinearIssue, LinearLabel } from './linear.js'
+import {
+  LinearIssue,
+  LinearLabel,
+  LinearProject,
+  LinearTeam,
+  LinearWorkflowState
+} from './linear.js'
 import * as core from '@actions/core'
+import { LinearClient, LinearGraphQLError } from './linear_client.js'
+
+/** An issue as selected by `issueFields`. */
+export interface IssueNode {
+  id: string
+  identifier: string
+  title: string
+  url?: string
+  labels?: { nodes: LinearLabel[] } | null
+  state?: LinearWorkflowState | null
+  team?: LinearTeam | null
+  project?: LinearProject | null
+  parent?: { id: string } | null
+}
 
 interface AttachmentIssueNode {
   id: string
   url: string
-  issue: {
-    id: string
-    identifier: string
-    title: string
-    labels?: { nodes: LinearLabel[] } | null
-  }
+  issue: IssueNode
 }
 
 interface AttachmentsQueryResponse {
-  attachments?: { nodes: AttachmentIssueNode[] }
+  attachments?: {
+    pageInfo?: { hasNextPage?: boolean; endCursor?: string | null }
+    nodes: AttachmentIssueNode[]
+  }
 }
 
+interface IssueQueryResponse {
+  issue?: IssueNode | null
+}
+
+/** The issue fields every query selects; see `toLinearIssue`. */
+export const issueFields = `
+  id
+  identifier
+  title
+  url
+  labels(first: 50) { nodes { id name parent { id name } } }
+  state { id name type position }
+  team { id key name }
+  project { id name }
+  parent { id }
+`
+
 /**
- * Queries Linear to find the Linear issue associated with a given Pull Request URL.
+ * Queries Linear to find the Linear issues associated with the given Pull Request URLs.
+ *
+ * The URLs are looked up in batches with an `in` filter to stay well within Linear's
+ * rate limits on large releases: the number of requests is roughly the number of PRs
+ * divided by the batch size. A pull request can be attached to several issues (e.g.,
+ * a bug and its follow-up), so every distinct issue with an attachment for a URL is
+ * returned.
  *
- * @param prUrl - The URL of the GitHub Pull Request to search for in Linear attachments.
- * @param linearApiUrl - The Linear API endpoint URL to send the GraphQL request to.
- * @param linearApiKey - The Linear API key used for authentication in the request header.
- * @returns A promise that resolves to a minimal Linear issue object (id, identifier, title, labels) if found, or `null` if no issue is linked to the given PR URL.
+ * @param prUrls - The URLs of the GitHub Pull Requests to search for in Linear attachments.
+ * @param batchSize - The maximum number of PR URLs to look up per request.
+ * @param linearClient - The client used to talk to the Linear API.
+ * @returns A promise that resolves to a map of every PR URL to its minimal Linear issue objects (id, identifier, title, labels, state, team, project); PRs without a linked issue map to an empty array.
  */
-export async function getLinearIssueFromPrUrl(
-  prUrl: string,
-  linearApiUrl: string,
-  linearApiKey: string
-): Promise<LinearIssue | null> {
+export async function getLinearIssuesFromPrUrls(
+  prUrls: string[],
+  batchSize: number,
+  linearClient: LinearClient
+): Promise<Map<string, LinearIssue[]>> {
+  const issuesByPrUrl = new Map<string, Map<string, IssueNode>>(
+    prUrls.map((prUrl) => [prUrl, new Map()])
+  )
+
+  for (let start = 0; start < prUrls.length; start += batchSize) {
+    const batch = prUrls.slice(start, start + batchSize)
+    core.info(
+      `Looking up Linear issues for PRs ${start + 1}-${start + batch.length} of ${prUrls.length}...`
+    )
+
+    for (const node of await fetchAttachmentsByUrls(batch, linearClient)) {
+      const issues = issuesByPrUrl.get(node.url)
+      if (node.issue && issues && !issues.has(node.issue.id)) {
+        issues.set(node.issue.id, node.issue)
+      }
+    }
+  }
+
+  const result = new Map<string, LinearIssue[]>()
+  for (const [prUrl, issues] of issuesByPrUrl) {
+    if (issues.size > 0) {
+      const identifiers = [...issues.values()].map((issue) => issue.identifier)
+      core.info(
+        `Found Linear issue(s) ${identifiers.join(', ')} for PR: ${prUrl} (matched via Linear attachment)`
+      )
+    } else {
+      core.info(`No Linear issue found linked to PR: ${prUrl}`)
+    }
+    result.set(prUrl, [...issues.values()].map(toLinearIssue))
+  }
+
+  return result
+}
+
+async function fetchAttachmentsByUrls(
+  urls: string[],
+  linearClient: LinearClient
+): Promise<AttachmentIssueNode[]> {
   const graphqlQuery = `
-    query GetIssueByPullRequestUrl($prUrl: String!) {
-      attachments(filter: { url: { eq: $prUrl } }) {
+    query GetIssuesByPullRequestUrls($urls: [String!]!, $cursor: String) {
+      attachments(filter: { url: { in: $urls } }, first: 250, after: $cursor) {
+        pageInfo { hasNextPage endCursor }
         nodes {
           id
           url
-          issue {
-            id
-            identifier
-            title
-            labels(first: 50) { nodes { id name parent { id name } } }
-          }
+          issue { ${issueFields} }
         }
       }
     }
   `
 
-  const response = await axios.post(
-    linearApiUrl,
-    { query: graphqlQuery, variables: { prUrl } },
-    {
-      headers: {
-        'Content-Type': 'application/json',
-        Authorization: linearApiKey
+  const nodes: AttachmentIssueNode[] = []
+  let cursor: string | undefined
+
+  // Several attachments can share a URL, so a batch may span more than one page
+  while (true) {
+    const data = await linearClient.request<AttachmentsQueryResponse>(
+      graphqlQuery,
+      { urls, cursor }
+    )
+    nodes.push(...(data?.attachments?.nodes || []))
+
+    const pageInfo = data?.attachments?.pageInfo
+    if (!pageInfo?.hasNextPage || !pageInfo.endCursor) {
+      break
+    }
+    cursor = pageInfo.endCursor
+  }
+
+  return nodes
+}
+
+/**
+ * Queries Linear for every issue that carries the given label.
+ *
+ * @param labelId - The ID of the label.
+ * @param linearClient - The client used to talk to the Linear API.
+ * @returns The issues with the label.
+ */
+export async function getLinearIssuesByLabel(
+  labelId: string,
+  linearClient: LinearClient
+): Promise<LinearIssue[]> {
+  const graphqlQuery = `
+    query GetIssuesByLabel($labelId: ID!, $cursor: String) {
+      issues(filter: { labels: { id: { eq: $labelId } } }, first: 250, after: $cursor) {
+        pageInfo { hasNextPage endCursor }
+        nodes { ${issueFields} }
+      }
+    }
+  `
+
+  const issues: LinearIssue[] = []
+  let cursor: string | undefined
+
+  while (true) {
+    const data = await linearClient.request<{
+      issues?: {
+        pageInfo?: { hasNextPage?: boolean; endCursor?: string | null }
+        nodes: IssueNode[]
       }
+    }>(graphqlQuery, { labelId, cursor })
+    issues.push(...(data?.issues?.nodes || []).map(toLinearIssue))
+
+    const pageInfo = data?.issues?.pageInfo
+    if (!pageInfo?.hasNextPage || !pageInfo.endCursor) {
+      break
     }
-  )
+    cursor = pageInfo.endCursor
+  }
 
-  const data: AttachmentsQueryResponse | undefined = (response as any)?.data
-    ?.data
-  if (data?.attachments && data.attachments.nodes.length > 0) {
-    const issue = data.attachments.nodes[0].issue
-    core.info(`Found Linear issue ${issue.identifier} for PR: ${prUrl}`)
-    return {
-      id: issue.id,
-      identifier: issue.identifier,
-      title: issue.title,
-      labels: issue.labels?.nodes || []
+  return issues
+}
+
+/**
+ * Queries Linear for an issue by its human-readable identifier (e.g., "ABC-123").
+ *
+ * @param identifier - The issue identifier to look up.
+ * @param linearClient - The client used to talk to the Linear API.
+ * @returns A promise that resolves to the Linear issue, or `null` if no issue has that identifier.
+ */
+export async function getLinearIssueByIdentifier(
+  identifier: string,
+  linearClient: LinearClient
+): Promise<LinearIssue | null> {
+  const graphqlQuery = `
+    query GetIssueByIdentifier($id: String!) {
+      issue(id: $id) { ${issueFields} }
     }
-  } else {
-    core.info(`No Linear issue found linked to PR: ${prUrl}`)
-    return null
+  `
+
+  // Linear answers an unknown identifier with an "Entity not found" error, which is
+  // treated the same as a missing issue
+  try {
+    const data = await linearClient.request<IssueQueryResponse>(graphqlQuery, {
+      id: identifier
+    })
+    return data?.issue ? toLinearIssue(data.issue) : null
+  } catch (error) {
+    if (
+      error instanceof LinearGraphQLError &&
+      error.errors.some((e) => /not found/i.test(e.message))
+    ) {
+      return null
+    }
+    throw error
+  }
+}
+
+/**
+ * Lists the keys of every team in the Linear workspace (e.g., "ENG"), so that issue
+ * identifiers can be told apart from look-alikes such as "UTF-8" or "SHA-256".
+ *
+ * @param linearClient - The client used to talk to the Linear API.
+ * @returns The team keys.
+ */
+export async function listTeamKeys(
+  linearClient: LinearClient
+): Promise<string[]> {
+  const graphqlQuery = `
+    query TeamKeys($cursor: String) {
+      teams(first: 250, after: $cursor) {
+        pageInfo { hasNextPage endCursor }
+        nodes { key }
+      }
+    }
+  `
+
+  const teamKeys: string[] = []
+  let cursor: string | undefined
+
+  while (true) {
+    const data = await linearClient.request<{
+      teams?: {
+        pageInfo?: { hasNextPage?: boolean; endCursor?: string | null }
+        nodes: { key: string }[]
+      }
+    }>(graphqlQuery, { cursor })
+    teamKeys.push(...(data?.teams?.nodes || []).map((team) => team.key))
+
+    const pageInfo = data?.teams?.pageInfo
+    if (!pageInfo?.hasNextPage || !pageInfo.endCursor) {
+      break
+    }
+    cursor = pageInfo.endCursor
+  }
+
+  return teamKeys
+}
+
+/**
+ * Extracts Linear issue identifiers (e.g., "ABC-123") from free text such as a PR
+ * title, branch name or commit message.
+ *
+ * Matching is case-insensitive because Linear's generated branch names are lower
+ * case; the returned identifiers are upper-cased and de-duplicated in order of
+ * appearance.
+ *
+ * @param text - The text to search.
+ * @param teamKeys - The accepted team key prefixes. When empty, any key is accepted.
+ * @returns The identifiers found in the text.
+ */
+export function extractIssueIdentifiers(
+  text: string,
+  teamKeys: string[]
+): string[] {
+  const keyPattern =
+    teamKeys.length > 0
+      ? teamKeys
+          .map((key) => key.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+          .join('|')
+      : '[a-z][a-z0-9]{0,9}'
+  const identifierPattern = new RegExp(
+    `(?<![a-z0-9])(${keyPattern})-(\\d+)(?![a-z0-9])`,
+    'gi'
+  )
+
+  const identifiers = new Set<string>()
+  for (const match of text.matchAll(identifierPattern)) {
+    identifiers.add(`${match[1].toUpperCase()}-${match[2]}`)
+  }
+
+  return [...identifiers]
+}
+
+/**
+ * Converts an issue selected with `issueFields` into a `LinearIssue`.
+ */
+export function toLinearIssue(issue: IssueNode): LinearIssue {
+  return {
+    id: issue.id,
+    identifier: issue.identifier,
+    title: issue.title,
+    url: issue.url,
+    labels: issue.labels?.nodes || [],
+    state: issue.state || null,
+    team: issue.team || null,
+    project: issue.project || null,
+    parent: issue.parent || null
   }
 }
@@ -1,6 +1,6 @@
-/* eslint-disable @typescript-eslint/no-explicit-any */
-import axios from 'axios'
 import * as core from '@actions/core'
+import { planMutation } from './dry_run.js'
+import { LinearClient } from './linear_client.js'
 
 /**
  * Creates an attachment on a Linear issue.
@@ -8,17 +8,33 @@ import * as core from '@actions/core'
  * @param issueId - The ID of the Linear issue (e.g., "LIN-123").
  * @param url - The URL to attach to the Linear issue (e.g., GitHub release URL).
  * @param versionName - The release version name (e.g., "1.2.3").
- * @param linearApiUrl - The Linear API endpoint URL.
- * @param linearApiKey - The Linear API key for authentication.
+ * @param linearClient - The client used to talk to the Linear API.
+ * @param dryRun - When true, the attachment is only reported, not created.
+ * @param prerelease - Whether the release is a prerelease, which is marked in the attachment title.
  * @throws Will throw an error if the attachment creation fails.
  */
 export async function createLinearAttachment(
   issueId: string,
   url: string,
   versionName: string,
-  linearApiUrl: string,
-  linearApiKey: string
+  linearClient: LinearClient,
+  dryRun = false,
+  prerelease = false
 ) {
+  const title = prerelease ? `${versionName} (prerelease)` : `${versionName}`
+  const subtitle = prerelease
+    ? `Pre-released in version ${versionName}`
+    : `Released in version ${versionName}`
+
+  if (dryRun) {
+    planMutation({
+      mutation: 'attachmentCreate',
+      description: `attach ${url} to issue ${issueId}`,
+      variables: { issueId, url, title, subtitle, versionName }
+    })
+    return
+  }
+
   const graphqlMutation = `
       mutation AttachmentCreate($issueId: String!, $url: String!, $title: String!, $subtitle: String!, $versionName: String!) {
         attachmentCreate(
@@ -37,26 +53,6 @@ export async function createLinearAttachment(
       }
     `
 
-  const response = await axios.post(
-    linearApiUrl,
-    {
-      query: graphqlMutation,
-      variables: {
-        issueId,
-        url,
-        title: `${versionName}`,
-        subtitle: `Released in version ${versionName}`,
-        versionName
-      }
-    },
-    {
-      headers: {
-        'Content-Type': 'application/json',
-        Authorization: linearApiKey
-      }
-    }
-  )
-
   interface AttachmentCreateResponse {
     attachmentCreate: {
       success: boolean
@@ -67,13 +63,21 @@ export async function createLinearAttachment(
     }
   }
 
-  const { data } = response.data as { data: AttachmentCreateResponse }
-  if (data.attachmentCreate && data.attachmentCreate.success) {
+  const data = await linearClient.request<AttachmentCreateResponse>(
+    graphqlMutation,
+    {
+      issueId,
+      url,
+      title,
+      subtitle,
+      versionName
+    }
+  )
+  if (data?.attachmentCreate?.success) {
     core.info(`Successfully attached "${versionName}" to Linear issue`)
   } else {
     throw new Error(
-      `Failed to attach "${versionName}" to Linear issue:` +
-        (response.data as { errors?: any }).errors
+      `Failed to attach "${versionName}" to Linear issue: Linear reported no success.`
     )
   }
 }
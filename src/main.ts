@@ -1,5 +1,6 @@
 import * as core from '@actions/core'
 import { processRelease } from './attach_release.js'
+import { loadConfig } from './config.js'
 
 /**
  * The main function for the action.
@@ -8,7 +9,7 @@ import { processRelease } from './attach_release.js'
  */
 export async function run(): Promise<void> {
   try {
-    await processRelease()
+    await processRelease(loadConfig())
   } catch (error) {
     if (error instanceof Error) {
       core.setFailed(error)
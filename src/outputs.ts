@@ -0,0 +1,68 @@
+import * as core from '@actions/core'
+import { PlannedMutation } from './dry_run.js'
+
+/**
+ * The result of a release linking run, as exposed to later workflow steps.
+ */
+export interface ReleaseOutputs {
+  previousTag?: string
+  previousTagStrategy: string
+  prUrls: string[]
+  linearIssues: string[]
+  updatedIssues: string[]
+  failedIssues: string[]
+  movedIssues: string[]
+  commentedIssues: string[]
+  skippedIssues: string[]
+  archivedLabels: string[]
+  releasedParents: string[]
+  updatedProjects: string[]
+  labelId?: string
+  plannedMutations: PlannedMutation[]
+}
+
+/**
+ * Sets the action outputs for a release linking run.
+ *
+ * Lists are JSON-encoded so that later steps can read them with `fromJSON()`, and
+ * every list is accompanied by a plain count for use in `if:` conditions.
+ *
+ * @param outputs - The result of the release linking run.
+ */
+export function setReleaseOutputs(outputs: ReleaseOutputs) {
+  core.setOutput('previous-tag', outputs.previousTag || '')
+  core.setOutput('previous-tag-strategy', outputs.previousTagStrategy)
+  core.setOutput('pr-urls', JSON.stringify(outputs.prUrls))
+  core.setOutput('pr-count', outputs.prUrls.length)
+  core.setOutput('linear-issues', JSON.stringify(outputs.linearIssues))
+  core.setOutput('linear-issue-count', outputs.linearIssues.length)
+  core.setOutput('updated-issues', JSON.stringify(outputs.updatedIssues))
+  core.setOutput('updated-count', outputs.updatedIssues.length)
+  core.setOutput('failed-issues', JSON.stringify(outputs.failedIssues))
+  core.setOutput('failed-count', outputs.failedIssues.length)
+  core.setOutput('moved-issues', JSON.stringify(outputs.movedIssues))
+  core.setOutput('moved-count', outputs.movedIssues.length)
+  core.setOutput('commented-issues', JSON.stringify(outputs.commentedIssues))
+  core.setOutput('commented-count', outputs.commentedIssues.length)
+  core.setOutput('skipped-issues', JSON.stringify(outputs.skippedIssues))
+  core.setOutput('skipped-count', outputs.skippedIssues.length)
+  core.setOutput('archived-labels', JSON.stringify(outputs.archivedLabels))
+  core.setOutput('archived-label-count', outputs.archivedLabels.length)
+  core.setOutput('released-parents', JSON.stringify(outputs.releasedParents))
+  core.setOutput('released-parent-count', outputs.releasedParents.length)
+  core.setOutput('updated-projects', JSON.stringify(outputs.updatedProjects))
+  core.setOutput('updated-project-count', outputs.updatedProjects.length)
+  core.setOutput('label-id', outputs.labelId || '')
+  core.setOutput('planned-mutations', JSON.stringify(outputs.plannedMutations))
+}
+
+/**
+ * Sets the action outputs for a backfill run. The outputs of the last linked release
+ * are set by `setReleaseOutputs`.
+ *
+ * @param backfilledReleases - The tags of the releases linked by this run.
+ */
+export function setBackfillOutputs(backfilledReleases: string[]) {
+  core.setOutput('backfilled-releases', JSON.stringify(backfilledReleases))
+  core.setOutput('backfilled-count', backfilledReleases.length)
+}
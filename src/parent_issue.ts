@@ -0,0 +1,111 @@
+import { LinearIssue } from './linear.js'
+import { LinearClient } from './linear_client.js'
+import { IssueNode, issueFields, toLinearIssue } from './linear_issue.js'
+
+/**
+ * A sub-issue of a parent issue, with what is needed to tell whether it shipped.
+ */
+export interface ChildIssue {
+  id: string
+  identifier: string
+  stateType?: string
+  /** The IDs of the label groups of the child's labels. */
+  labelGroupIds: string[]
+  /** Whether the child has an attachment of a release of the repository. */
+  hasReleaseAttachment: boolean
+}
+
+export interface ParentIssue {
+  linearIssue: LinearIssue
+  children: ChildIssue[]
+}
+
+interface ChildIssueNode {
+  id: string
+  identifier: string
+  state?: { type: string } | null
+  labels?: { nodes: { parent?: { id: string } | null }[] } | null
+  attachments?: { nodes: { id: string }[] } | null
+}
+
+/**
+ * Queries Linear for a parent issue and its sub-issues.
+ *
+ * @param parentId - The ID of the parent issue.
+ * @param releasesUrl - The URL under which the releases of the repository live; an
+ * attachment starting with it marks a sub-issue as released.
+ * @param linearClient - The client used to talk to the Linear API.
+ * @returns The parent issue and its sub-issues, or `null` if it does not exist.
+ */
+export async function getParentIssue(
+  parentId: string,
+  releasesUrl: string,
+  linearClient: LinearClient
+): Promise<ParentIssue | null> {
+  const graphqlQuery = `
+    query GetParentIssue($id: String!, $releasesUrl: String!) {
+      issue(id: $id) {
+        ${issueFields}
+        children(first: 250) {
+          nodes {
+            id
+            identifier
+            state { type }
+            labels(first: 50) { nodes { parent { id } } }
+            attachments(filter: { url: { startsWith: $releasesUrl } }, first: 1) {
+              nodes { id }
+            }
+          }
+        }
+      }
+    }
+  `
+
+  const data = await linearClient.request<{
+    issue?: (IssueNode & { children?: { nodes: ChildIssueNode[] } }) | null
+  }>(graphqlQuery, { id: parentId, releasesUrl })
+  if (!data?.issue) {
+    return null
+  }
+
+  return {
+    linearIssue: toLinearIssue(data.issue),
+    children: (data.issue.children?.nodes || []).map((child) => ({
+      id: child.id,
+      identifier: child.identifier,
+      stateType: child.state?.type,
+      labelGroupIds: (child.labels?.nodes || []).flatMap((label) =>
+        label.parent ? [label.parent.id] : []
+      ),
+      hasReleaseAttachment: (child.attachments?.nodes || []).length > 0
+    }))
+  }
+}
+
+/**
+ * Lists the sub-issues of a parent that have not shipped yet.
+ *
+ * A sub-issue has shipped if it was released by this run, has an attachment of a
+ * release of the repository, or has a label in one of the release label groups.
+ * Canceled sub-issues never ship, so they do not hold the parent back.
+ *
+ * @param parent - The parent issue and its sub-issues.
+ * @param releasedIssueIds - The IDs of the issues released by this run.
+ * @param releaseLabelGroupIds - The IDs of the release label groups.
+ * @returns The identifiers of the sub-issues that have not shipped.
+ */
+export function getUnreleasedChildren(
+  parent: ParentIssue,
+  releasedIssueIds: Set<string>,
+  releaseLabelGroupIds: string[]
+): string[] {
+  return parent.children
+    .filter(
+      (child) =>
+        child.stateType !== 'canceled' &&
+        !releasedIssueIds.has(child.id) &&
+        !child.hasReleaseAttachment &&
+        !child.labelGroupIds.some((id) => releaseLabelGroupIds.includes(id))
+    )
+    .map((child) => child.identifier)
+}
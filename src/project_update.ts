@@ -0,0 +1,143 @@
+import * as core from '@actions/core'
+import { LinearIssue, LinearProject } from './linear.js'
+import { mentionsReleaseUrl } from './issue_comment.js'
+import { planMutation } from './dry_run.js'
+import { LinearClient } from './linear_client.js'
+
+/**
+ * Builds the body of a project update listing the issues shipped in a release.
+ *
+ * @param versionName - The release version name (e.g., "1.2.3").
+ * @param releaseUrl - The URL of the GitHub release.
+ * @param releaseDate - When the release was published.
+ * @param linearIssues - The issues of the project shipped in the release.
+ * @returns The Markdown body of the update.
+ */
+export function buildReleaseProjectUpdate(
+  versionName: string,
+  releaseUrl: string,
+  releaseDate: string,
+  linearIssues: LinearIssue[]
+): string {
+  const lines = linearIssues.map((linearIssue) =>
+    linearIssue.url
+      ? `- [${linearIssue.identifier}](${linearIssue.url}) ${linearIssue.title}`
+      : `- ${linearIssue.identifier} ${linearIssue.title}`
+  )
+
+  return [
+    `Released in [${versionName}](${releaseUrl}) on ${releaseDate.slice(0, 10)}:`,
+    '',
+    ...lines
+  ].join('\n')
+}
+
+/**
+ * Posts an update about the release to a Linear project, unless the project already
+ * has one.
+ *
+ * An update counts as already posted if it mentions the release URL, so re-running
+ * the action for a release does not post it again. An update about a prerelease such
+ * as `1.4.0-rc.1` does not count for `1.4.0`.
+ *
+ * @param project - The Linear project to post to.
+ * @param body - The Markdown body of the update.
+ * @param releaseUrl - The URL of the GitHub release.
+ * @param linearClient - The client used to talk to the Linear API.
+ * @param dryRun - When true, the update is only reported, not posted.
+ * @returns `true` if the update was posted (or planned), `false` if it already existed.
+ * @throws If Linear does not accept the update.
+ */
+export async function createReleaseProjectUpdate(
+  project: LinearProject,
+  body: string,
+  releaseUrl: string,
+  linearClient: LinearClient,
+  dryRun = false
+): Promise<boolean> {
+  const existingUpdates = await fetchProjectUpdateBodies(
+    project.id,
+    linearClient
+  )
+  if (
+    existingUpdates.some((update) => mentionsReleaseUrl(update, releaseUrl))
+  ) {
+    core.info(
+      `Project '${project.name}' already has an update for this release.`
+    )
+    return false
+  }
+
+  if (dryRun) {
+    planMutation({
+      mutation: 'projectUpdateCreate',
+      description: `post an update to project '${project.name}'`,
+      variables: { projectId: project.id, body }
+    })
+    return true
+  }
+
+  const createProjectUpdateMutation = `
+      mutation ProjectUpdateCreate($projectId: String!, $body: String!) {
+        projectUpdateCreate(input: { projectId: $projectId, body: $body }) {
+          success
+        }
+      }
+    `
+
+  const data = await linearClient.request<{
+    projectUpdateCreate: { success: boolean }
+  }>(createProjectUpdateMutation, { projectId: project.id, body })
+  if (!data?.projectUpdateCreate?.success) {
+    throw new Error(
+      `Failed to post an update to project '${project.name}': Linear reported no success.`
+    )
+  }
+
+  core.info(`Posted an update to project '${project.name}'`)
+  return true
+}
+
+interface ProjectUpdatesQueryResponse {
+  project: {
+    projectUpdates: {
+      pageInfo: { hasNextPage: boolean; endCursor?: string | null }
+      nodes: { body: string }[]
+    }
+  } | null
+}
+
+async function fetchProjectUpdateBodies(
+  projectId: string,
+  linearClient: LinearClient
+): Promise<string[]> {
+  const projectUpdatesQuery = `
+      query ProjectUpdates($projectId: String!, $cursor: String) {
+        project(id: $projectId) {
+          projectUpdates(first: 100, after: $cursor) {
+            pageInfo { hasNextPage endCursor }
+            nodes { body }
+          }
+        }
+      }
+    `
+
+  const bodies: string[] = []
+  let cursor: string | undefined
+
+  while (true) {
+    const data = await linearClient.request<ProjectUpdatesQueryResponse>(
+      projectUpdatesQuery,
+      { projectId, cursor }
+    )
+    const updates = data?.project?.projectUpdates
+    bodies.push(...(updates?.nodes || []).map((update) => update.body))
+
+    if (!updates?.pageInfo?.hasNextPage || !updates.pageInfo.endCursor) {
+      break
+    }
+    cursor = updates.pageInfo.endCursor
+  }
+
+  return bodies
+}
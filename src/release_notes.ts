@@ -0,0 +1,112 @@
+import { LinearIssue } from './linear.js'
+import { ReleaseNotesGroupBy } from './config.js'
+
+export const releaseNotesStartMarker = '<!-- release-linker:start -->'
+export const releaseNotesEndMarker = '<!-- release-linker:end -->'
+
+/**
+ * Builds the Markdown section listing the Linear issues shipped in a release.
+ *
+ * Issues are grouped by their team, or by each of their labels. Labels in a group
+ * matching `excludedLabelGroups` (such as the release label groups) are not used for
+ * grouping. Issues without a team or label end up under "Other". Pull requests
+ * without an issue, and those whose issues were all left alone by the issue filters,
+ * are listed in sections of their own.
+ *
+ * @param linearIssues - The Linear issues shipped in the release.
+ * @param unlinkedPrUrls - The URLs of the pull requests without a Linear issue.
+ * @param filteredPrUrls - The URLs of the pull requests whose issues were all filtered.
+ * @param groupBy - Whether to group the issues by team or by label.
+ * @param excludedLabelGroups - Patterns of label group names ignored for grouping.
+ * @returns The section, including its start and end markers.
+ */
+export function buildReleaseNotesSection(
+  linearIssues: LinearIssue[],
+  unlinkedPrUrls: string[],
+  filteredPrUrls: string[],
+  groupBy: ReleaseNotesGroupBy,
+  excludedLabelGroups: RegExp[] = []
+): string {
+  const groups = new Map<string, LinearIssue[]>()
+  for (const linearIssue of linearIssues) {
+    const groupNames =
+      groupBy === ReleaseNotesGroupBy.Team
+        ? [linearIssue.team?.name].filter((name): name is string => !!name)
+        : linearIssue.labels
+            .filter(
+              (label) =>
+                !excludedLabelGroups.some((pattern) =>
+                  pattern.test(label.parent?.name || '')
+                )
+            )
+            .map((label) => label.name)
+
+    for (const groupName of groupNames.length > 0 ? groupNames : ['Other']) {
+      groups.set(groupName, [...(groups.get(groupName) || []), linearIssue])
+    }
+  }
+
+  // "Other" always comes last, after the named groups in alphabetical order
+  const groupNames = [...groups.keys()].sort((a, b) =>
+    a === 'Other' ? 1 : b === 'Other' ? -1 : a.localeCompare(b)
+  )
+
+  const lines = [releaseNotesStartMarker, '## Linear issues', '']
+  if (linearIssues.length === 0) {
+    lines.push('No Linear issues were linked to this release.', '')
+  }
+  for (const groupName of groupNames) {
+    lines.push(`### ${groupName}`, '')
+    for (const linearIssue of sortByIdentifier(groups.get(groupName) || [])) {
+      const identifier = linearIssue.url
+        ? `[${linearIssue.identifier}](${linearIssue.url})`
+        : linearIssue.identifier
+      lines.push(`- ${identifier} ${linearIssue.title}`)
+    }
+    lines.push('')
+  }
+
+  if (unlinkedPrUrls.length > 0) {
+    lines.push('### Pull requests without a Linear issue', '')
+    lines.push(...unlinkedPrUrls.map((prUrl) => `- ${prUrl}`), '')
+  }
+
+  if (filteredPrUrls.length > 0) {
+    lines.push('### Pull requests of filtered issues', '')
+    lines.push(...filteredPrUrls.map((prUrl) => `- ${prUrl}`), '')
+  }
+
+  lines.push(releaseNotesEndMarker)
+  return lines.join('\n')
+}
+
+/**
+ * Adds the generated section to a release body, or replaces the one added before.
+ *
+ * Everything outside the markers is kept as it is. Without markers the section is
+ * appended to the end of the body.
+ *
+ * @param body - The current body of the release.
+ * @param section - The section to insert, including its markers.
+ * @returns The new body of the release.
+ */
+export function replaceReleaseNotesSection(body: string, section: string) {
+  const start = body.indexOf(releaseNotesStartMarker)
+  const end = body.indexOf(releaseNotesEndMarker, start)
+  if (start !== -1 && end !== -1) {
+    return (
+      body.slice(0, start) +
+      section +
+      body.slice(end + releaseNotesEndMarker.length)
+    )
+  }
+
+  const trimmed = body.trimEnd()
+  return trimmed ? `${trimmed}\n\n${section}\n` : `${section}\n`
+}
+
+function sortByIdentifier(linearIssues: LinearIssue[]) {
+  return [...linearIssues].sort((a, b) =>
+    a.identifier.localeCompare(b.identifier, undefined, { numeric: true })
+  )
+}
@@ -0,0 +1,82 @@
+export interface SemanticVersion {
+  major: number
+  minor: number
+  patch: number
+  prerelease: string[]
+}
+
+const versionPattern =
+  /^v?(\d+)\.(\d+)\.(\d+)(?:-([0-9A-Za-z-]+(?:\.[0-9A-Za-z-]+)*))?(?:\+[0-9A-Za-z-.]+)?$/
+
+/**
+ * Parses a release tag such as `1.2.3`, `v1.2.3` or `v1.4.0-rc.1` as a semantic version.
+ *
+ * @param tag - The tag to parse.
+ * @returns The parsed version, or `null` if the tag is not a semantic version.
+ */
+export function parseVersion(tag: string): SemanticVersion | null {
+  const match = versionPattern.exec(tag.trim())
+  if (!match) {
+    return null
+  }
+
+  return {
+    major: Number(match[1]),
+    minor: Number(match[2]),
+    patch: Number(match[3]),
+    prerelease: match[4] ? match[4].split('.') : []
+  }
+}
+
+/**
+ * Removes the tag prefix of a monorepo component (e.g., "api-") from a release tag.
+ *
+ * @param tag - The release tag (e.g., "api-v1.2.3").
+ * @param tagPrefix - The prefix to remove; tags without it are returned as they are.
+ * @returns The tag without the prefix.
+ */
+export function stripTagPrefix(tag: string, tagPrefix: string) {
+  return tag.startsWith(tagPrefix) ? tag.slice(tagPrefix.length) : tag
+}
+
+/**
+ * Compares two semantic versions following the semver precedence rules, so that a
+ * prerelease such as `1.4.0-rc.1` sorts before `1.4.0`.
+ *
+ * @returns A negative number if `a` is lower than `b`, a positive number if it is
+ * higher, and 0 if both have the same precedence.
+ */
+export function compareVersions(a: SemanticVersion, b: SemanticVersion) {
+  const releaseDiff =
+    a.major - b.major || a.minor - b.minor || a.patch - b.patch
+  if (releaseDiff !== 0) {
+    return releaseDiff
+  }
+
+  if (a.prerelease.length === 0 || b.prerelease.length === 0) {
+    return b.prerelease.length - a.prerelease.length
+  }
+
+  for (let i = 0; i < Math.max(a.prerelease.length, b.prerelease.length); i++) {
+    const left = a.prerelease[i]
+    const right = b.prerelease[i]
+    if (left === undefined || right === undefined) {
+      return left === undefined ? -1 : 1
+    }
+
+    const leftNumeric = /^\d+$/.test(left)
+    const rightNumeric = /^\d+$/.test(right)
+    if (leftNumeric && rightNumeric) {
+      const diff = Number(left) - Number(right)
+      if (diff !== 0) {
+        return diff
+      }
+    } else if (leftNumeric !== rightNumeric) {
+      return leftNumeric ? -1 : 1
+    } else if (left !== right) {
+      return left < right ? -1 : 1
+    }
+  }
+
+  return 0
+}
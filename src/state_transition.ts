@@ -0,0 +1,179 @@
+import { LinearIssue, LinearWorkflowState } from './linear.js'
+import * as core from '@actions/core'
+import { planMutation } from './dry_run.js'
+import { LinearClient } from './linear_client.js'
+
+/**
+ * Linear workflow state types in the order an issue normally moves through them.
+ * `canceled` is deliberately absent: canceled issues are never moved.
+ */
+const workflowStateTypeOrder = [
+  'triage',
+  'backlog',
+  'unstarted',
+  'started',
+  'completed'
+]
+
+/**
+ * Resolves the workflow state with the given name for each of the given Linear teams.
+ *
+ * Workflow states are defined per team in Linear, so a state named "Released" has a
+ * different ID in every team. Teams that do not have a state with that name are
+ * left out of the returned map.
+ *
+ * @param teamIds - The IDs of the Linear teams to resolve the state for.
+ * @param stateName - The name of the target workflow state (e.g., "Released").
+ * @param linearClient - The client used to talk to the Linear API.
+ * @returns A map of team ID to the matching workflow state.
+ */
+export async function resolveTargetStates(
+  teamIds: string[],
+  stateName: string,
+  linearClient: LinearClient
+): Promise<Map<string, LinearWorkflowState>> {
+  const states = new Map<string, LinearWorkflowState>()
+
+  await Promise.all(
+    teamIds.map(async (teamId) => {
+      const state = await fetchWorkflowStateByName(
+        teamId,
+        stateName,
+        linearClient
+      )
+      if (state) {
+        states.set(teamId, state)
+      }
+    })
+  )
+
+  return states
+}
+
+async function fetchWorkflowStateByName(
+  teamId: string,
+  stateName: string,
+  linearClient: LinearClient
+): Promise<LinearWorkflowState | null> {
+  core.info(
+    `Looking for workflow state '${stateName}' in Linear team ${teamId}...`
+  )
+
+  const findStateQuery = `
+      query FindWorkflowState($teamId: ID!, $name: String!) {
+        workflowStates(
+          filter: { team: { id: { eq: $teamId } }, name: { eqIgnoreCase: $name } }
+        ) {
+          nodes { id name type position }
+        }
+      }
+    `
+
+  const findStateResp = await linearClient.request<{
+    workflowStates: {
+      nodes: LinearWorkflowState[]
+    }
+  }>(findStateQuery, { teamId, name: stateName })
+  const nodes = findStateResp?.workflowStates?.nodes || []
+  if (nodes.length > 0) {
+    core.info(
+      `Found workflow state '${nodes[0].name}' with ID ${nodes[0].id} in team ${teamId}`
+    )
+    return nodes[0]
+  }
+
+  core.info(`Workflow state '${stateName}' not found in team ${teamId}.`)
+  return null
+}
+
+/**
+ * Determines why an issue should not be moved to the target state.
+ *
+ * An issue is left alone when it is canceled, already in the target state, or in a
+ * state that comes later in the workflow than the target state. States of the same
+ * type are ordered by their position within the team's workflow.
+ *
+ * @param linearIssue - The Linear issue to check, including its current state.
+ * @param targetState - The workflow state the issue would be moved to.
+ * @returns The reason for skipping the issue, or `null` if it should be moved.
+ */
+export function getStateTransitionSkipReason(
+  linearIssue: LinearIssue,
+  targetState: LinearWorkflowState
+): string | null {
+  const currentState = linearIssue.state
+  if (!currentState) {
+    return null
+  }
+
+  if (currentState.id === targetState.id) {
+    return `already in '${currentState.name}'`
+  }
+
+  if (currentState.type === 'canceled') {
+    return `canceled ('${currentState.name}')`
+  }
+
+  const currentRank = workflowStateTypeOrder.indexOf(currentState.type)
+  const targetRank = workflowStateTypeOrder.indexOf(targetState.type)
+  if (
+    currentRank > targetRank ||
+    (currentRank === targetRank && currentState.position > targetState.position)
+  ) {
+    return `already in later state '${currentState.name}'`
+  }
+
+  return null
+}
+
+/**
+ * Moves a Linear issue to the given workflow state.
+ *
+ * @param linearIssue - The Linear issue to update.
+ * @param targetState - The workflow state to move the issue to.
+ * @param linearClient - The client used to talk to the Linear API.
+ * @param dryRun - When true, the state change is only reported, not sent.
+ * @throws If the issue could not be updated in Linear.
+ */
+export async function moveIssueToState(
+  linearIssue: LinearIssue,
+  targetState: LinearWorkflowState,
+  linearClient: LinearClient,
+  dryRun = false
+) {
+  if (dryRun) {
+    planMutation({
+      mutation: 'issueUpdate',
+      description: `move issue ${linearIssue.identifier} to state '${targetState.name}'`,
+      variables: { issueId: linearIssue.id, stateId: targetState.id }
+    })
+    return
+  }
+
+  core.info(
+    `Moving issue '${linearIssue.identifier}' to state '${targetState.name}'...`
+  )
+
+  const updateMutation = `
+        mutation UpdateIssueState($issueId: String!, $stateId: String!) {
+          issueUpdate(id: $issueId, input: { stateId: $stateId }) {
+            success
+          }
+        }
+      `
+  const updateResp = await linearClient.request<{
+    issueUpdate: {
+      success: boolean
+    }
+  }>(updateMutation, { issueId: linearIssue.id, stateId: targetState.id })
+
+  if (updateResp?.issueUpdate?.success !== true) {
+    throw new Error(
+      `Failed to move issue ${linearIssue.identifier} to state '${targetState.name}': Linear reported no success.`
+    )
+  }
+
+  core.info(
+    `Issue ${linearIssue.identifier} successfully moved to state '${targetState.name}'`
+  )
+}
@@ -0,0 +1,222 @@
+import * as core from '@actions/core'
+
+export type StepStatus = 'success' | 'failed' | 'skipped' | 'planned'
+
+/**
+ * A single row of the job summary: one pull request and what happened to its issue.
+ */
+export interface PullRequestReport {
+  prUrl: string
+  issueIdentifier?: string
+  attachment: StepStatus
+  label: StepStatus
+  comment: StepStatus
+}
+
+/**
+ * A single row of the backfill summary: one release and how linking it went.
+ */
+export interface BackfillReport {
+  versionName: string
+  status: StepStatus
+  prCount?: number
+  issueCount?: number
+  failedCount?: number
+  error?: string
+}
+
+/**
+ * An issue that was linked to the release but left alone by the issue filters.
+ */
+export interface SkippedIssueReport {
+  identifier: string
+  skipReason: string
+}
+
+export interface FailureReport {
+  subject: string
+  error: string
+}
+
+const statusText: Record<StepStatus, string> = {
+  success: '✅ Success',
+  failed: '❌ Failed',
+  skipped: '➖ Skipped',
+  planned: '📝 Planned (dry run)'
+}
+
+/**
+ * Writes a Markdown job summary of the release linking run.
+ *
+ * The summary contains a table with every pull request in the release, the Linear
+ * issue it resolved to and the outcome of the attachment, label and comment steps,
+ * followed by the issues the filters skipped and the error text of every failure.
+ * Failing to write the summary is reported as a warning so that it never fails an
+ * otherwise successful run.
+ *
+ * @param versionName - The release version name (e.g., "1.2.3").
+ * @param pullRequests - One report per pull request in the release.
+ * @param failures - The failures that occurred during the run.
+ * @param skippedIssues - The issues the filters skipped, with the reason.
+ */
+export async function writeReleaseSummary(
+  versionName: string,
+  pullRequests: PullRequestReport[],
+  failures: FailureReport[],
+  skippedIssues: SkippedIssueReport[] = []
+) {
+  const rows = pullRequests.map((pr) => [
+    `<a href="${escapeHtml(pr.prUrl)}">${escapeHtml(pr.prUrl)}</a>`,
+    pr.issueIdentifier ? escapeHtml(pr.issueIdentifier) : 'none',
+    statusText[pr.attachment],
+    statusText[pr.label],
+    statusText[pr.comment]
+  ])
+
+  core.summary
+    .addHeading(`Release ${escapeHtml(versionName)} linked to Linear`, 2)
+    .addRaw(
+      `Found ${pullRequests.length} pull request(s), ` +
+        `${pullRequests.filter((pr) => pr.issueIdentifier).length} with a Linear issue.`,
+      true
+    )
+
+  if (rows.length > 0) {
+    core.summary.addTable([
+      [
+        { data: 'Pull request', header: true },
+        { data: 'Linear issue', header: true },
+        { data: 'Attachment', header: true },
+        { data: 'Label', header: true },
+        { data: 'Comment', header: true }
+      ],
+      ...rows
+    ])
+  }
+
+  if (skippedIssues.length > 0) {
+    core.summary
+      .addHeading('Skipped issues', 3)
+      .addList(
+        skippedIssues.map(
+          (issue) =>
+            `<strong>${escapeHtml(issue.identifier)}</strong>: ${escapeHtml(issue.skipReason)}`
+        )
+      )
+  }
+
+  if (failures.length > 0) {
+    core.summary
+      .addHeading('Failures', 3)
+      .addList(
+        failures.map(
+          (failure) =>
+            `<strong>${escapeHtml(failure.subject)}</strong>: ${escapeHtml(failure.error)}`
+        )
+      )
+  }
+
+  await writeSummary()
+}
+
+/**
+ * Writes a Markdown job summary of an unlink run.
+ *
+ * @param versionName - The release version name (e.g., "1.2.3").
+ * @param unlinkedIssues - The identifiers of the issues the release was removed from.
+ * @param failures - The failures that occurred during the run.
+ */
+export async function writeUnlinkSummary(
+  versionName: string,
+  unlinkedIssues: string[],
+  failures: FailureReport[]
+) {
+  core.summary
+    .addHeading(`Release ${escapeHtml(versionName)} unlinked from Linear`, 2)
+    .addRaw(
+      `Removed the release from ${unlinkedIssues.length} Linear issue(s).`,
+      true
+    )
+
+  if (unlinkedIssues.length > 0) {
+    core.summary.addList(unlinkedIssues.map(escapeHtml))
+  }
+
+  if (failures.length > 0) {
+    core.summary
+      .addHeading('Failures', 3)
+      .addList(
+        failures.map(
+          (failure) =>
+            `<strong>${escapeHtml(failure.subject)}</strong>: ${escapeHtml(failure.error)}`
+        )
+      )
+  }
+
+  await writeSummary()
+}
+
+/**
+ * Writes a Markdown job summary of a backfill run, below the summaries of the
+ * individual releases.
+ *
+ * @param reports - One report per release, oldest first. Releases completed by an
+ * earlier run are `skipped`.
+ */
+export async function writeBackfillSummary(reports: BackfillReport[]) {
+  const linked = reports.filter((report) => report.status === 'success')
+
+  core.summary
+    .addHeading('Backfill', 2)
+    .addRaw(
+      `Linked ${linked.length} release(s); ` +
+        `${reports.filter((report) => report.status === 'skipped').length} were already completed.`,
+      true
+    )
+
+  if (reports.length > 0) {
+    core.summary.addTable([
+      [
+        { data: 'Release', header: true },
+        { data: 'Status', header: true },
+        { data: 'Pull requests', header: true },
+        { data: 'Linear issues', header: true },
+        { data: 'Failed', header: true }
+      ],
+      ...reports.map((report) => [
+        escapeHtml(report.versionName),
+        report.error
+          ? `${statusText[report.status]}: ${escapeHtml(report.error)}`
+          : statusText[report.status],
+        // core.summary writes an empty cell as an unclosed <td>
+        String(report.prCount ?? '-'),
+        String(report.issueCount ?? '-'),
+        String(report.failedCount ?? '-')
+      ])
+    ])
+  }
+
+  await writeSummary()
+}
+
+async function writeSummary() {
+  // There is no job summary outside GitHub Actions, e.g. when run from the CLI
+  if (!process.env.GITHUB_STEP_SUMMARY) {
+    core.summary.emptyBuffer()
+    return
+  }
+
+  try {
+    await core.summary.write()
+  } catch (error) {
+    core.warning(`Failed to write job summary: ${String(error)}`)
+  }
+}
+
+function escapeHtml(text: string) {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
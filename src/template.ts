@@ -0,0 +1,20 @@
+/**
+ * Fills the `{name}` placeholders of a template with the given values.
+ *
+ * Placeholders without a value are left as they are, so that a typo shows up in the
+ * rendered text instead of silently disappearing.
+ *
+ * @param template - The template (e.g., "Released in {version}").
+ * @param values - The value of each placeholder, keyed by its name.
+ * @returns The rendered text.
+ */
+export function renderTemplate(
+  template: string,
+  values: Record<string, string>
+): string {
+  return template.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    Object.prototype.hasOwnProperty.call(values, name)
+      ? values[name]
+      : placeholder
+  )
+}
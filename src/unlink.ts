@@ -0,0 +1,276 @@
+import * as core from '@actions/core'
+import { LinearIssue, LinearLabel } from './linear.js'
+import { planMutation } from './dry_run.js'
+import { LinearClient } from './linear_client.js'
+import { fetchLabelGroupChildren, getLabelNamePattern } from './label_attach.js'
+import { issueFields, IssueNode, toLinearIssue } from './linear_issue.js'
+import { compareVersions, parseVersion, stripTagPrefix } from './semver.js'
+
+/**
+ * A release attachment created by `createLinearAttachment`, with the issue it is on.
+ */
+export interface ReleaseAttachment {
+  id: string
+  url: string
+  linearIssue: LinearIssue
+}
+
+/**
+ * Finds the release attachments of a version on Linear issues.
+ *
+ * An attachment belongs to the release if its URL is the release URL, or if its
+ * `releaseTag` metadata is the version and its URL points to a release of the same
+ * repository. The latter also catches attachments whose release URL has changed.
+ *
+ * @param versionName - The release version name (e.g., "1.2.3").
+ * @param releaseUrl - The URL of the GitHub release.
+ * @param repoReleasesUrl - The URL prefix shared by all releases of the repository.
+ * @param linearClient - The client used to talk to the Linear API.
+ * @returns The attachments of the release.
+ */
+export async function findReleaseAttachments(
+  versionName: string,
+  releaseUrl: string,
+  repoReleasesUrl: string,
+  linearClient: LinearClient
+): Promise<ReleaseAttachment[]> {
+  const graphqlQuery = `
+    query FindReleaseAttachments($url: String!, $titles: [String!]!, $cursor: String) {
+      attachments(
+        filter: { or: [{ url: { eq: $url } }, { title: { in: $titles } }] }
+        first: 250
+        after: $cursor
+      ) {
+        pageInfo { hasNextPage endCursor }
+        nodes {
+          id
+          url
+          metadata
+          issue { ${issueFields} }
+        }
+      }
+    }
+  `
+
+  const attachments: ReleaseAttachment[] = []
+  let cursor: string | undefined
+
+  while (true) {
+    const data = await linearClient.request<{
+      attachments?: {
+        pageInfo?: { hasNextPage?: boolean; endCursor?: string | null }
+        nodes: {
+          id: string
+          url: string
+          metadata?: { releaseTag?: string } | null
+          issue?: IssueNode | null
+        }[]
+      }
+    }>(graphqlQuery, {
+      url: releaseUrl,
+      titles: [versionName, `${versionName} (prerelease)`],
+      cursor
+    })
+
+    for (const node of data?.attachments?.nodes || []) {
+      const matches =
+        node.url === releaseUrl ||
+        (node.metadata?.releaseTag === versionName &&
+          node.url.startsWith(repoReleasesUrl))
+      if (matches && node.issue) {
+        attachments.push({
+          id: node.id,
+          url: node.url,
+          linearIssue: toLinearIssue(node.issue)
+        })
+      }
+    }
+
+    const pageInfo = data?.attachments?.pageInfo
+    if (!pageInfo?.hasNextPage || !pageInfo.endCursor) {
+      break
+    }
+    cursor = pageInfo.endCursor
+  }
+
+  core.info(
+    `Found ${attachments.length} Linear attachment(s) for release ${versionName}.`
+  )
+  return attachments
+}
+
+/**
+ * Deletes a release attachment from its Linear issue.
+ *
+ * @param attachment - The attachment to delete.
+ * @param linearClient - The client used to talk to the Linear API.
+ * @param dryRun - When true, the deletion is only reported, not sent.
+ * @throws If Linear does not delete the attachment.
+ */
+export async function deleteReleaseAttachment(
+  attachment: ReleaseAttachment,
+  linearClient: LinearClient,
+  dryRun = false
+) {
+  const { identifier } = attachment.linearIssue
+
+  if (dryRun) {
+    planMutation({
+      mutation: 'attachmentDelete',
+      description: `delete attachment ${attachment.url} from issue ${identifier}`,
+      variables: { id: attachment.id }
+    })
+    return
+  }
+
+  const deleteMutation = `
+      mutation AttachmentDelete($id: String!) {
+        attachmentDelete(id: $id) {
+          success
+        }
+      }
+    `
+
+  const data = await linearClient.request<{
+    attachmentDelete: { success: boolean }
+  }>(deleteMutation, { id: attachment.id })
+  if (!data?.attachmentDelete?.success) {
+    throw new Error(
+      `Failed to delete attachment ${attachment.url} from issue ${identifier}: Linear reported no success.`
+    )
+  }
+
+  core.info(`Deleted attachment ${attachment.url} from issue ${identifier}`)
+}
+
+/**
+ * Removes a release label from a Linear issue, optionally putting another label of
+ * the same group back in its place.
+ *
+ * Only the two labels are sent, so the other labels of the issue are kept even if the
+ * issue has more of them than were fetched.
+ *
+ * @param linearIssue - The Linear issue to update.
+ * @param releaseLabel - The label to remove.
+ * @param restoreLabel - The label to add instead, if any.
+ * @param linearClient - The client used to talk to the Linear API.
+ * @param dryRun - When true, the label update is only reported, not sent.
+ * @throws If Linear does not accept the label update.
+ */
+export async function removeLabelFromIssue(
+  linearIssue: LinearIssue,
+  releaseLabel: LinearLabel,
+  restoreLabel: LinearLabel | null,
+  linearClient: LinearClient,
+  dryRun = false
+) {
+  const variables = {
+    issueId: linearIssue.id,
+    removedLabelIds: [releaseLabel.id],
+    addedLabelIds: restoreLabel ? [restoreLabel.id] : []
+  }
+
+  const description = restoreLabel
+    ? `replace label '${releaseLabel.name}' of issue ${linearIssue.identifier} with '${restoreLabel.name}'`
+    : `remove label '${releaseLabel.name}' from issue ${linearIssue.identifier}`
+
+  if (dryRun) {
+    planMutation({
+      mutation: 'issueUpdate',
+      description,
+      variables
+    })
+    return
+  }
+
+  const updateMutation = `
+        mutation RemoveIssueLabel($issueId: String!, $removedLabelIds: [String!], $addedLabelIds: [String!]) {
+          issueUpdate(id: $issueId, input: { removedLabelIds: $removedLabelIds, addedLabelIds: $addedLabelIds }) {
+            success
+          }
+        }
+      `
+  const data = await linearClient.request<{
+    issueUpdate: { success: boolean }
+  }>(updateMutation, variables)
+  if (!data?.issueUpdate?.success) {
+    throw new Error(
+      `Failed to update labels on issue ${linearIssue.identifier}: Linear reported no success.`
+    )
+  }
+
+  core.info(`Labels of issue ${linearIssue.identifier} updated: ${description}`)
+}
+
+/**
+ * The label of an earlier release, with the version it was created for.
+ */
+export interface PreviousReleaseLabel {
+  label: LinearLabel
+  /** The release tag of the label (e.g., "1.2.2"). */
+  versionName: string
+}
+
+/**
+ * Finds the label of the release before the given one in the same label group.
+ *
+ * The version of each label of the group is read back from its name, and the label
+ * with the highest semantic version below the unlinked one is the previous release's.
+ * Labels whose name does not hold a semantic version are ignored.
+ *
+ * @param releaseLabel - The label of the release that is unlinked.
+ * @param versionName - The release tag that is unlinked (e.g., "1.2.3").
+ * @param repoName - The repository name used in the label names.
+ * @param nameTemplate - The template the label names were rendered from.
+ * @param tagPrefix - The tag prefix of a monorepo component, or an empty string.
+ * @param linearClient - The client used to talk to the Linear API.
+ * @returns The previous release label, or `null` if there is none.
+ */
+export async function findPreviousReleaseLabel(
+  releaseLabel: LinearLabel,
+  versionName: string,
+  repoName: string,
+  nameTemplate: string,
+  tagPrefix: string,
+  linearClient: LinearClient
+): Promise<PreviousReleaseLabel | null> {
+  const currentVersion = parseVersion(stripTagPrefix(versionName, tagPrefix))
+  if (!releaseLabel.parent || !currentVersion) {
+    return null
+  }
+
+  const children = await fetchLabelGroupChildren(
+    releaseLabel.parent.id,
+    linearClient
+  )
+
+  const namePattern = getLabelNamePattern(nameTemplate, repoName)
+  let previous: PreviousReleaseLabel | null = null
+  let previousVersion = null
+  for (const child of children) {
+    const tag = namePattern.exec(child.name)?.[1]
+    const version = tag ? parseVersion(stripTagPrefix(tag, tagPrefix)) : null
+    if (
+      tag &&
+      version &&
+      compareVersions(version, currentVersion) < 0 &&
+      (!previousVersion || compareVersions(version, previousVersion) > 0)
+    ) {
+      previous = {
+        label: { id: child.id, name: child.name, parent: releaseLabel.parent },
+        versionName: tag
+      }
+      previousVersion = version
+    }
+  }
+
+  if (!previous) {
+    core.info(`No release label before '${releaseLabel.name}' was found.`)
+    return null
+  }
+
+  core.info(
+    `Previous release label of '${releaseLabel.name}' is '${previous.label.name}'.`
+  )
+  return previous
+}